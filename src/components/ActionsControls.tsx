@@ -5,9 +5,8 @@ import {
   setNewPalette, 
   guidesVisible, 
   setGuidesVisible,
-  rings
+  applyRingChanges
 } from '../store/artwork';
-import type { Ring } from '../model/ring';
 import '../styles/components/actions-controls.css';
 
 // Props interface
@@ -41,17 +40,9 @@ export const ActionsControls: Component<ActionsControlsProps> = (props) => {
   // Handlers
   const performRerender = () => {
     if (hasChanges()) {
-      // Update all particles' stroke data before redrawing
+      // Apply gradients and update all particles' stroke data before redrawing
       const p = props.getP();
-      if (p) {
-        // Get current rings and update their particles
-        const currentRings = rings();
-        currentRings.forEach((ring: Ring) => {
-          if (!ring.isSolidRing) {
-            ring.updateParticles(p);
-          }
-        });
-      }
+      if (p) applyRingChanges(p);
       clearChanges();
       props.requestRedraw();
     }
@@ -12,6 +12,7 @@ import { TabContainer, type Tab } from './TabContainer';
 import { PerformanceTab } from './PerformanceTab';
 import { DownloadTab } from './DownloadTab';
 import { PositioningTab } from './PositioningTab';
+import { GlyphsTab } from './GlyphsTab';
 import { deferredRenderManager } from '../core/deferred-render';
 import type p5 from 'p5';
 import '../styles/components/status-chips.css';
@@ -164,6 +165,21 @@ export const App: Component<AppProps> = (props) => {
                     requestRedraw: handleRequestRedraw
                   }
                 },
+                {
+                  id: 'glyphs',
+                  label: 'Glyphs',
+                  icon: '✒️',
+                  content: GlyphsTab,
+                  props: {
+                    getP: () => {
+                      if (!props.p5Instance) {
+                        return null;
+                      }
+                      return props.p5Instance;
+                    },
+                    requestRedraw: handleRequestRedraw
+                  }
+                },
                 {
                   id: 'center-dot',
                   label: 'Center',
@@ -68,7 +68,7 @@ export const CenterDotControls: Component<CenterDotControlsProps> = (props) => {
               type="range"
               min="0"
               max={innerDotMaxRadius()}
-              step="0.1"
+              step="0.001"
               value={innerDotRadius()}
               onInput={(e) => {
                 const value = parseFloat(e.target.value);
@@ -80,7 +80,7 @@ export const CenterDotControls: Component<CenterDotControlsProps> = (props) => {
               class="control-range"
             />
             <div class="control-description">
-              <small>{innerDotRadius().toFixed(1)} / {innerDotMaxRadius().toFixed(1)}</small>
+              <small>{(innerDotRadius() * 100).toFixed(1)}% / {(innerDotMaxRadius() * 100).toFixed(1)}% of the wheel</small>
             </div>
           </div>
 
@@ -89,9 +89,9 @@ export const CenterDotControls: Component<CenterDotControlsProps> = (props) => {
             <label class="control-label">Max Radius</label>
             <input
               type="range"
-              min="1"
-              max="50"
-              step="0.5"
+              min="0.01"
+              max="0.5"
+              step="0.005"
               value={innerDotMaxRadius()}
               onInput={(e) => {
                 const value = parseFloat(e.target.value);
@@ -110,7 +110,7 @@ export const CenterDotControls: Component<CenterDotControlsProps> = (props) => {
               class="control-range"
             />
             <div class="control-description">
-              <small>{innerDotMaxRadius().toFixed(1)}</small>
+              <small>{(innerDotMaxRadius() * 100).toFixed(1)}% of the wheel</small>
             </div>
           </div>
 
@@ -0,0 +1,213 @@
+import { Component, For, createEffect, createSignal, onCleanup } from 'solid-js';
+import type p5 from 'p5';
+import { palette } from '../store/artwork';
+import { sampleSvgPath } from '../core/svg-path';
+import { createPathGlyphDrawing } from '../core/alphabet/path-glyph';
+import { BASE_GLYPH_OPTIONS } from '../core/glyph-registry';
+import { WHEEL_DRAW_RADIUS } from '../core/constants';
+import { Particle } from '../model/particle';
+import type { DrawShapeFn, RangeParamMap } from '../model/types';
+import {
+  GLYPH_EDITOR_SIZE,
+  createGlyphNode,
+  defaultGlyphNodes,
+  glyphNodesToSvgPath,
+  moveGlyphNode,
+} from '../core/glyph-nodes';
+import type { GlyphNode, GlyphNodePart } from '../core/glyph-nodes';
+
+interface GlyphEditorProps {
+  nodes: GlyphNode[];
+  closed: boolean;
+  onChange: (nodes: GlyphNode[], closed: boolean) => void;
+}
+
+// Canvas of draggable anchors (squares) and bezier handles (circles)
+export const GlyphEditor: Component<GlyphEditorProps> = (props) => {
+  const [selected, setSelected] = createSignal<number | null>(null);
+  const [dragging, setDragging] = createSignal<{ index: number; part: GlyphNodePart } | null>(null);
+
+  // Pointer position in the editor's 0..100 box
+  const toEditor = (e: PointerEvent | MouseEvent, svg: SVGSVGElement) => {
+    const rect = svg.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * GLYPH_EDITOR_SIZE,
+      y: ((e.clientY - rect.top) / rect.height) * GLYPH_EDITOR_SIZE,
+    };
+  };
+
+  const startDrag = (e: PointerEvent, index: number, part: GlyphNodePart) => {
+    e.stopPropagation();
+    (e.currentTarget as SVGGraphicsElement).ownerSVGElement?.setPointerCapture(e.pointerId);
+    setSelected(index);
+    setDragging({ index, part });
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const drag = dragging();
+    if (!drag) return;
+    const { x, y } = toEditor(e, e.currentTarget as SVGSVGElement);
+    const nodes = props.nodes.map((node, i) => (i === drag.index ? moveGlyphNode(node, drag.part, x, y) : node));
+    props.onChange(nodes, props.closed);
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    if (!dragging()) return;
+    (e.currentTarget as SVGSVGElement).releasePointerCapture(e.pointerId);
+    setDragging(null);
+  };
+
+  // Double-click adds an anchor after the selected one, or at the end
+  const handleDoubleClick = (e: MouseEvent) => {
+    const { x, y } = toEditor(e, e.currentTarget as SVGSVGElement);
+    const at = (selected() ?? props.nodes.length - 1) + 1;
+    const nodes = [...props.nodes.slice(0, at), createGlyphNode(x, y), ...props.nodes.slice(at)];
+    props.onChange(nodes, props.closed);
+    setSelected(at);
+  };
+
+  const removeSelected = () => {
+    const index = selected();
+    if (index === null || props.nodes.length <= 2) return;
+    props.onChange(
+      props.nodes.filter((_, i) => i !== index),
+      props.closed
+    );
+    setSelected(null);
+  };
+
+  const reset = () => {
+    props.onChange(defaultGlyphNodes(), false);
+    setSelected(null);
+  };
+
+  return (
+    <div class="glyph-editor">
+      <svg
+        class="glyph-editor-canvas"
+        viewBox={`0 0 ${GLYPH_EDITOR_SIZE} ${GLYPH_EDITOR_SIZE}`}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onDblClick={handleDoubleClick}
+      >
+        <path class="glyph-editor-path" d={glyphNodesToSvgPath(props.nodes, props.closed)} />
+        <For each={props.nodes}>
+          {(node, i) => (
+            <g class={`glyph-editor-node ${selected() === i() ? 'selected' : ''}`}>
+              <line class="glyph-editor-handle-line" x1={node.x} y1={node.y} x2={node.inX} y2={node.inY} />
+              <line class="glyph-editor-handle-line" x1={node.x} y1={node.y} x2={node.outX} y2={node.outY} />
+              <circle class="glyph-editor-handle" cx={node.inX} cy={node.inY} r={1.8} onPointerDown={(e) => startDrag(e, i(), 'in')} />
+              <circle class="glyph-editor-handle" cx={node.outX} cy={node.outY} r={1.8} onPointerDown={(e) => startDrag(e, i(), 'out')} />
+              <rect
+                class="glyph-editor-anchor"
+                x={node.x - 2.2}
+                y={node.y - 2.2}
+                width={4.4}
+                height={4.4}
+                onPointerDown={(e) => startDrag(e, i(), 'anchor')}
+              />
+            </g>
+          )}
+        </For>
+      </svg>
+      <div class="glyph-form-row">
+        <label class="glyph-editor-option">
+          <input type="checkbox" checked={props.closed} onChange={(e) => props.onChange(props.nodes, e.currentTarget.checked)} />
+          Closed
+        </label>
+        <button class="glyph-button" onClick={removeSelected} disabled={selected() === null || props.nodes.length <= 2}>
+          Remove Point
+        </button>
+        <button class="glyph-button" onClick={reset}>
+          Reset
+        </button>
+      </div>
+      <div class="glyph-editor-hint">Drag points and handles; double-click to add a point.</div>
+    </div>
+  );
+};
+
+interface GlyphNibPreviewProps {
+  path: string;
+  getP: () => p5 | null;
+}
+
+const PREVIEW_SIZE = 120;
+const RING_PREVIEW_SIZE = 160;
+const RING_PREVIEW_SLOTS = 12;
+const RING_PREVIEW_RADIUS = 0.72; // wheel units
+
+// The glyph in `slot` of a test ring, built and colored the way a ring builds its particles
+function previewParticle(p: p5, draw: DrawShapeFn, slot: number): Particle {
+  const options: RangeParamMap = {};
+  for (const [key, param] of Object.entries(BASE_GLYPH_OPTIONS)) options[key] = { ...param };
+  const baseColor = palette()[0] ?? p.color(0, 0, 100);
+  const angle = (slot / RING_PREVIEW_SLOTS) * Math.PI * 2;
+  const radius = RING_PREVIEW_RADIUS * WHEEL_DRAW_RADIUS;
+  return new Particle(radius, angle, RING_PREVIEW_SLOTS, draw, baseColor, options, false, 0, p, undefined, {}, {}, 0, slot);
+}
+
+// Draw into an offscreen p5 buffer, then copy it onto the preview canvas
+function renderPreview(buffer: p5.Graphics, canvas: HTMLCanvasElement, draw: (g: p5.Graphics) => void) {
+  buffer.clear();
+  buffer.push();
+  buffer.colorMode(buffer.HSB, 360, 100, 100);
+  draw(buffer);
+  buffer.pop();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(buffer.elt as HTMLCanvasElement, 0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * The glyph drawn by the same particles and nib as a ring, with the current
+ * palette and stroke settings, alone and repeated around a test ring
+ */
+export const GlyphNibPreview: Component<GlyphNibPreviewProps> = (props) => {
+  let glyphCanvas: HTMLCanvasElement | undefined;
+  let ringCanvas: HTMLCanvasElement | undefined;
+  let glyphBuffer: p5.Graphics | undefined;
+  let ringBuffer: p5.Graphics | undefined;
+
+  onCleanup(() => {
+    glyphBuffer?.remove();
+    ringBuffer?.remove();
+  });
+
+  createEffect(() => {
+    const p = props.getP();
+    const { paths, error } = sampleSvgPath(props.path);
+    if (!p || !glyphCanvas || !ringCanvas) return;
+    glyphBuffer ??= p.createGraphics(PREVIEW_SIZE, PREVIEW_SIZE);
+    ringBuffer ??= p.createGraphics(RING_PREVIEW_SIZE, RING_PREVIEW_SIZE);
+    const draw = error ? null : createPathGlyphDrawing(paths).draw;
+
+    // One glyph, upright and scaled so its slot fills most of the preview
+    renderPreview(glyphBuffer, glyphCanvas, (g) => {
+      if (!draw) return;
+      const single = previewParticle(p, draw, 0);
+      const theta = (Math.PI * 2) / RING_PREVIEW_SLOTS;
+      const slot = (single.radius * Math.sqrt(2 * (1 - Math.cos(theta)))) / Math.sqrt(2);
+      g.translate(PREVIEW_SIZE / 2, PREVIEW_SIZE / 2);
+      g.scale((PREVIEW_SIZE * 0.6) / slot);
+      single.place(0, 0, -Math.PI / 4);
+      single.display(g);
+    });
+
+    // The test ring, fitted to the preview as the sketch fits the wheel to the canvas
+    renderPreview(ringBuffer, ringCanvas, (g) => {
+      if (!draw) return;
+      g.translate(RING_PREVIEW_SIZE / 2, RING_PREVIEW_SIZE / 2);
+      g.scale(RING_PREVIEW_SIZE / 2 / WHEEL_DRAW_RADIUS);
+      for (let i = 0; i < RING_PREVIEW_SLOTS; i++) previewParticle(p, draw, i).display(g);
+    });
+  });
+
+  return (
+    <div class="glyph-nib-preview">
+      <canvas ref={glyphCanvas} width={PREVIEW_SIZE} height={PREVIEW_SIZE} title="Glyph drawn as a ring draws it, with the current palette and stroke settings" />
+      <canvas ref={ringCanvas} width={RING_PREVIEW_SIZE} height={RING_PREVIEW_SIZE} title="Glyph on a test ring" />
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import { Component, For, Show, createMemo, createSignal } from 'solid-js';
+import type p5 from 'p5';
+import { customGlyphs, grammarMacros, setCustomGlyph, removeCustomGlyph } from '../store/artwork';
+import { validateCustomGlyph } from '../core/custom-glyphs';
+import type { CustomGlyph } from '../core/custom-glyphs';
+import { sampleSvgPath } from '../core/svg-path';
+import { defaultGlyphNodes, glyphNodesToSvgPath } from '../core/glyph-nodes';
+import type { GlyphNode } from '../core/glyph-nodes';
+import { GlyphEditor, GlyphNibPreview } from './GlyphEditor';
+import '../styles/components/glyphs-tab.css';
+
+interface GlyphsTabProps {
+  getP: () => p5 | null;
+  requestRedraw: () => void;
+}
+
+// Outline of a glyph's sampled path, in the normalized -0.5..0.5 box
+const GlyphPreview: Component<{ path: string }> = (props) => {
+  const polylines = createMemo(() =>
+    sampleSvgPath(props.path).paths.map((path) => path.map((point) => `${point.x},${point.y}`).join(' '))
+  );
+
+  return (
+    <svg class="glyph-preview" viewBox="-0.6 -0.6 1.2 1.2">
+      <For each={polylines()}>{(points) => <polyline points={points} />}</For>
+    </svg>
+  );
+};
+
+export const GlyphsTab: Component<GlyphsTabProps> = (props) => {
+  const [symbol, setSymbol] = createSignal('');
+  const [name, setName] = createSignal('');
+  const [pastedPath, setPastedPath] = createSignal('');
+  const [editing, setEditing] = createSignal<string | null>(null);
+  // 'draw' builds the path from the bezier editor, 'paste' takes SVG path data as typed
+  const [mode, setMode] = createSignal<'draw' | 'paste'>('draw');
+  const [nodes, setNodes] = createSignal<GlyphNode[]>(defaultGlyphNodes());
+  const [closed, setClosed] = createSignal(false);
+
+  const path = () => (mode() === 'draw' ? glyphNodesToSvgPath(nodes(), closed()) : pastedPath());
+
+  const draft = (): CustomGlyph =>
+    mode() === 'draw'
+      ? { symbol: symbol().trim(), name: name().trim(), path: path(), nodes: nodes(), closed: closed() }
+      : { symbol: symbol().trim(), name: name().trim(), path: path() };
+
+  const error = createMemo(() => {
+    if (symbol().trim() === '' || path().trim() === '') return null;
+    return validateCustomGlyph(draft(), grammarMacros(), editing() ?? undefined);
+  });
+
+  const canSave = () => symbol().trim() !== '' && path().trim() !== '' && !error();
+
+  const resetForm = () => {
+    setSymbol('');
+    setName('');
+    setPastedPath('');
+    setNodes(defaultGlyphNodes());
+    setClosed(false);
+    setEditing(null);
+  };
+
+  const handleSave = () => {
+    const p = props.getP();
+    if (!p || !canSave()) return;
+    const previous = editing();
+    if (previous && previous !== draft().symbol) removeCustomGlyph(previous, p);
+    setCustomGlyph(draft(), p);
+    resetForm();
+    props.requestRedraw();
+  };
+
+  const handleEdit = (glyph: CustomGlyph) => {
+    setSymbol(glyph.symbol);
+    setName(glyph.name);
+    setPastedPath(glyph.path);
+    if (glyph.nodes) {
+      setNodes(glyph.nodes);
+      setClosed(glyph.closed ?? false);
+    }
+    setMode(glyph.nodes ? 'draw' : 'paste');
+    setEditing(glyph.symbol);
+  };
+
+  const handleRemove = (symbol: string) => {
+    const p = props.getP();
+    if (!p) return;
+    removeCustomGlyph(symbol, p);
+    if (editing() === symbol) resetForm();
+    props.requestRedraw();
+  };
+
+  return (
+    <div class="glyphs-controls">
+      <div class="glyphs-header">
+        <h3 class="section-title">Custom Glyphs</h3>
+        <p class="section-description">
+          Draw a stroke with bezier handles or paste SVG path data (M, L, H, V, C, Q, A, Z), and give it a
+          letter to use in ring grammars. Glyphs are saved with the artwork.
+        </p>
+      </div>
+
+      <Show when={customGlyphs().length > 0}>
+        <div class="glyph-list">
+          <For each={customGlyphs()}>
+            {(glyph) => (
+              <div class={`glyph-list-item ${editing() === glyph.symbol ? 'editing' : ''}`}>
+                <GlyphPreview path={glyph.path} />
+                <span class="glyph-symbol">{glyph.symbol}</span>
+                <span class="glyph-name">{glyph.name || `Custom ${glyph.symbol.toUpperCase()}`}</span>
+                <button class="glyph-button" onClick={() => handleEdit(glyph)} title={`Edit glyph ${glyph.symbol}`}>
+                  ✎
+                </button>
+                <button class="glyph-button" onClick={() => handleRemove(glyph.symbol)} title={`Remove glyph ${glyph.symbol}`}>
+                  ✕
+                </button>
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+
+      <div class="glyph-form">
+        <div class="glyph-form-row">
+          <input
+            value={symbol()}
+            onInput={(e) => setSymbol(e.currentTarget.value.toLowerCase())}
+            class={`glyph-input glyph-symbol-input ${error() ? 'invalid' : ''}`}
+            maxLength={1}
+            placeholder="q"
+            title="Grammar letter"
+          />
+          <input
+            value={name()}
+            onInput={(e) => setName(e.currentTarget.value)}
+            class="glyph-input"
+            placeholder="Name (optional)"
+          />
+        </div>
+        <div class="glyph-mode-toggle">
+          <button class={`glyph-button ${mode() === 'draw' ? 'active' : ''}`} onClick={() => setMode('draw')}>
+            Draw
+          </button>
+          <button
+            class={`glyph-button ${mode() === 'paste' ? 'active' : ''}`}
+            onClick={() => {
+              // Start from the drawn shape so it can be fine-tuned as path data
+              if (pastedPath().trim() === '') setPastedPath(path());
+              setMode('paste');
+            }}
+          >
+            Path Data
+          </button>
+        </div>
+        <Show
+          when={mode() === 'draw'}
+          fallback={
+            <div class="glyph-form-row">
+              <textarea
+                value={pastedPath()}
+                onInput={(e) => setPastedPath(e.currentTarget.value)}
+                class={`glyph-input glyph-path-input ${error() ? 'invalid' : ''}`}
+                rows={4}
+                placeholder="M 0 0 C 10 -20 30 -20 40 0"
+                spellcheck={false}
+              />
+              <GlyphPreview path={pastedPath()} />
+            </div>
+          }
+        >
+          <GlyphEditor
+            nodes={nodes()}
+            closed={closed()}
+            onChange={(next, nextClosed) => {
+              setNodes(next);
+              setClosed(nextClosed);
+            }}
+          />
+        </Show>
+        <GlyphNibPreview path={path()} getP={props.getP} />
+        <Show when={error()}>
+          <div class="glyph-error">{error()}</div>
+        </Show>
+        <div class="glyph-form-row">
+          <button class="glyph-save-button" onClick={handleSave} disabled={!canSave()}>
+            {editing() ? 'Update Glyph' : 'Add Glyph'}
+          </button>
+          <Show when={editing()}>
+            <button class="glyph-button" onClick={resetForm}>
+              Cancel
+            </button>
+          </Show>
+        </div>
+      </div>
+    </div>
+  );
+};
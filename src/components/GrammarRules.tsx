@@ -1,4 +1,5 @@
 import { Component } from 'solid-js';
+import { listGlyphs } from '../core/glyph-registry';
 
 interface GrammarRulesProps {
   onExampleClick?: (example: string) => void;
@@ -11,11 +12,9 @@ export const GrammarRules: Component<GrammarRulesProps> = (props) => {
     }
   };
 
-  const symbols = [
-    { pattern: 'd', description: 'Diamond' },
-    { pattern: 'h', description: 'Horizontal hook' },
-    { pattern: 'l', description: 'L-stroke' },
-    { pattern: 'v', description: 'Vertical hook' },
+  // Every registered glyph, plus the two symbols that aren't glyphs
+  const symbols = () => [
+    ...listGlyphs().map((glyph) => ({ pattern: glyph.symbol, description: glyph.name })),
     { pattern: 'x', description: 'Empty space' },
     { pattern: '-', description: 'Solid ring' },
   ];
@@ -27,6 +26,14 @@ export const GrammarRules: Component<GrammarRulesProps> = (props) => {
     { pattern: 'dx', description: 'Diamond with space' },
     { pattern: 'd2h2', description: 'Two diamonds, two hooks' },
     { pattern: 'lVh', description: 'L-stroke, rotated hook, horizontal hook' },
+    { pattern: '(dxh)3v2', description: 'Motif repeated three times, two hooks' },
+    { pattern: '(d(hx)2)2', description: 'Nested groups' },
+    { pattern: '(d2d{size=1.8})4', description: 'Every third diamond larger' },
+    { pattern: '[d:3|h|x]16', description: 'Weighted random pick per slot' },
+    { pattern: 'E(5,16,d)', description: 'Five diamonds spread evenly over 16 steps' },
+    { pattern: "hh'h''h'''", description: 'Hook facing all four directions' },
+    { pattern: 'd<30>xd<-30>x', description: 'Diamonds tilted either way' },
+    { pattern: '(sxoxuxcxtxkx)2', description: 'Spiral, dot, arc, chevron, teardrop and cross' },
   ];
 
   const ExampleCard: Component<{ pattern: string; description: string }> = (exampleProps) => (
@@ -51,7 +58,7 @@ export const GrammarRules: Component<GrammarRulesProps> = (props) => {
       <div class="grammar-section">
         <h3>Symbols</h3>
         <div class="symbols-grid">
-          {symbols.map(symbol => (
+          {symbols().map(symbol => (
             <div class="symbol-card">
               <div class="symbol-pattern">{symbol.pattern}</div>
               <div class="symbol-description">{symbol.description}</div>
@@ -68,7 +75,25 @@ export const GrammarRules: Component<GrammarRulesProps> = (props) => {
             <strong>Numbers:</strong> Add after symbol to repeat (e.g., <code>d2</code> = two diamonds)
           </div>
           <div class="rule-item">
-            <strong>Uppercase:</strong> Rotates symbol 90° (e.g., <code>D</code> = rotated diamond)
+            <strong>Uppercase:</strong> Turns symbol 180° (e.g., <code>D</code> = upside-down diamond)
+          </div>
+          <div class="rule-item">
+            <strong>Rotation:</strong> Each <code>'</code> adds a quarter turn (<code>h'</code>, <code>h''</code>, <code>h'''</code>), <code>&lt;45&gt;</code> turns by any angle in degrees, <code>~</code> mirrors and <code>^</code> flips (e.g., <code>v'~</code>)
+          </div>
+          <div class="rule-item">
+            <strong>Groups:</strong> Wrap symbols in parentheses to repeat them together; groups can nest (e.g., <code>(dxh)3</code>)
+          </div>
+          <div class="rule-item">
+            <strong>Overrides:</strong> Set parameters for one symbol in braces (e.g., <code>h{'{'}curveIntensity=-0.5{'}'}</code>)
+          </div>
+          <div class="rule-item">
+            <strong>Choice:</strong> Square brackets pick one option per repeat, with optional weights (e.g., <code>[d:3|h|x]4</code>); use 🎲 on a ring to reroll
+          </div>
+          <div class="rule-item">
+            <strong>Euclidean:</strong> <code>E(pulses,steps,symbol)</code> spaces a symbol evenly, padding with <code>x</code>; an optional fourth argument rotates the start (e.g., <code>E(3,8,h,1)</code>)
+          </div>
+          <div class="rule-item">
+            <strong>Macros:</strong> Define shared fragments in the Rings tab (e.g., <code>A = dxh</code>) and use them in any ring (e.g., <code>A2B</code>)
           </div>
           <div class="rule-item">
             <strong>Combine:</strong> Chain symbols together (e.g., <code>d2h2</code> = two diamonds, two hooks)
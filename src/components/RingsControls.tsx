@@ -8,10 +8,15 @@ import {
   onCleanup,
   onMount,
 } from "solid-js";
+import type p5 from "p5";
 import {
   rings,
   updateRingPattern,
   updateRing,
+  rerollRing,
+  setRingFitMode,
+  setRingDivisions,
+  setRingPhase,
   markChanges,
   palette,
   setStrokeColorAssignment,
@@ -20,9 +25,63 @@ import {
   updateGlobalSetting,
   hasChanges,
   clearChanges,
+  grammarMacros,
+  setGrammarMacro,
+  removeGrammarMacro,
+  lSystem,
+  updateLSystem,
+  generateCellularAutomatonArtwork,
+  insertRing,
+  duplicateRing,
+  removeRing,
+  moveRing,
+  ringSpacing,
+  updateRingSpacing,
+  setRingRadius,
+  setRingArc,
+  setRingPath,
+  addRingLayer,
+  removeRingLayer,
+  setRingLayerVisible,
+  setRingModulation,
+  paramGradients,
+  addParamGradient,
+  updateParamGradient,
+  removeParamGradient,
+  setRingGradient,
+  setRingStrokeOverride,
+  applyRingChanges,
+  artworkSeed,
+  reseedArtwork,
 } from "../store/artwork";
 import { colorToRgbString, batchConvertColorsToRgb } from "../core/color";
-import type { Ring } from "../model/ring";
+import { parseGrammarWithDiagnostics } from "../core/grammar";
+import type { GrammarDiagnostic } from "../core/grammar";
+import { isValidMacroName } from "../core/macros";
+import {
+  formatLSystemRules,
+  parseLSystemRules,
+  validateLSystem,
+} from "../core/lsystem";
+import {
+  PRESET_RULES,
+  ruleFromTable,
+  ruleToTable,
+} from "../core/cellular-automaton";
+import type { SeedRowMode } from "../core/cellular-automaton";
+import { RING_SPACING_MODES } from "../core/ring-spacing";
+import type { EasingCurve, RingSpacingMode } from "../core/ring-spacing";
+import { DEFAULT_RING_PATH, RING_PATH_TYPES } from "../core/ring-path";
+import type { GlyphAlignment, RingPath, RingPathType } from "../core/ring-path";
+import { randomSeed } from "../core/random";
+import { DEFAULT_MODULATION, MODULATION_SOURCES } from "../core/modulation";
+import { DEFAULT_GRADIENT, GRADIENT_EASINGS } from "../core/gradients";
+import type { GradientAxis, GradientEasing, ParamGradient } from "../core/gradients";
+import type { Modulation, ModulationSource } from "../core/modulation";
+import { getDefaultGlyphOptions, getGlyphName, isGlyphSymbol, listGlyphs } from "../core/glyph-registry";
+import type { PatternFitMode, PhaseUnit } from "../model/ring";
+import type { RingStrokeSetting, StrokeName } from "../model/types";
+import { DIVISIONS_RANGE, RING_COUNT_RANGE, RING_STROKE_SETTINGS, RING_STROKE_SETTING_RANGES } from "../core/constants";
 
 // Props interface
 interface RingsControlsProps {
@@ -30,11 +89,23 @@ interface RingsControlsProps {
   requestRedraw: () => void;
 }
 
+// Per-ring stroke settings, with the same bounds as the global sliders
+const STROKE_OVERRIDE_FIELDS: { key: RingStrokeSetting; label: string }[] = [
+  { key: "strokeCount", label: "Strokes" },
+  { key: "colorBleed", label: "Bleed" },
+  { key: "globalStrokeWidth", label: "Width" },
+];
+
+// Radii are stored in wheel units and shown as a percent of the wheel's radius
+const toPercent = (radius: number) => Math.round(radius * 1000) / 10;
+
 // Component for individual ring controls
 const RingControl: Component<{
   index: number;
   getP: () => any;
   requestRedraw: () => void;
+  onDragStart?: (e: DragEvent) => void;
+  onDragEnd?: () => void;
 }> = (props) => {
   // Get the ring from the store to ensure reactivity
   const storeRing = createMemo(() => {
@@ -43,6 +114,18 @@ const RingControl: Component<{
     return ring;
   });
 
+  // Which of the ring's layers the grammar, phase and symbol controls edit
+  const [activeLayer, setActiveLayer] = createSignal(0);
+  const layerCount = () => {
+    rings();
+    return storeRing()?.layers.length ?? 1;
+  };
+  const storeLayer = () => {
+    rings();
+    return storeRing()?.layers[Math.min(activeLayer(), layerCount() - 1)];
+  };
+  const layerIndex = () => Math.min(activeLayer(), layerCount() - 1);
+
   const [grammarString, setGrammarString] = createSignal(
     storeRing()?.grammarString || ""
   );
@@ -53,7 +136,7 @@ const RingControl: Component<{
   createEffect(() => {
     const ring = storeRing();
     if (ring) {
-      setGrammarString(ring.grammarString || "");
+      setGrammarString(storeLayer()?.grammarString || "");
       setIsVisible(ring.visible);
     } else {
       // If ring doesn't exist, reset to defaults
@@ -62,6 +145,30 @@ const RingControl: Component<{
     }
   });
 
+  // While the L-system drives the rings, main layer inputs show the generated grammar read-only
+  const isGenerated = () => lSystem().enabled && layerIndex() === 0;
+  const displayedGrammar = () => {
+    if (!isGenerated()) return grammarString();
+    rings(); // generated grammars change without replacing the ring object
+    return storeLayer()?.grammarString ?? "";
+  };
+
+  // Live diagnostics for the text being edited (empty and solid '-' need no parsing)
+  const diagnostics = createMemo(() => {
+    const grammar = displayedGrammar().trim();
+    if (grammar === "" || grammar === "-") return null;
+    return parseGrammarWithDiagnostics(grammar, {
+      divisions: storeRing()?.divisions,
+      seed: storeLayer()?.seed,
+      macros: grammarMacros(),
+    });
+  });
+
+  const hasErrors = () => (diagnostics()?.errors.length ?? 0) > 0;
+
+  // Only grammars with [..] choices change when the ring's seed changes
+  const isStochastic = () => diagnostics()?.stochastic ?? false;
+
   // Handle grammar input changes (only updates local state, no rendering)
   const handleGrammarInput = (newGrammar: string) => {
     // Update text input immediately for responsive typing
@@ -71,6 +178,9 @@ const RingControl: Component<{
   // Handle grammar submission (triggers actual rendering)
   const handleGrammarSubmit = () => {
     const currentGrammar = grammarString().trim();
+
+    // Never apply a grammar the parser rejects, or hand-edit an L-system generation
+    if (hasErrors() || isGenerated()) return;
     
     // Show updating indicator
     setIsUpdating(true);
@@ -78,7 +188,7 @@ const RingControl: Component<{
     // Trigger the actual render
     const p = props.getP();
     if (p) {
-      updateRingPattern(props.index, currentGrammar, p);
+      updateRingPattern(props.index, currentGrammar, p, layerIndex());
       props.requestRedraw();
     }
     setIsUpdating(false);
@@ -92,18 +202,244 @@ const RingControl: Component<{
     }
   };
 
+  const handleReroll = () => {
+    const p = props.getP();
+    if (p) {
+      rerollRing(props.index, p, layerIndex());
+      props.requestRedraw();
+    }
+  };
+
+  // Read rings() so fit changes, which mutate the ring in place, are picked up
+  const fitMode = () => {
+    rings();
+    return storeRing()?.fitMode ?? "truncate";
+  };
+  const hasPattern = () => (storeLayer()?.pattern.length ?? 0) > 0;
+  const seam = () => {
+    const ring = storeRing();
+    const layer = storeLayer();
+    if (!ring || !layer || !ring.hasSeam(layerIndex())) return null;
+    return { length: layer.pattern.length, divisions: ring.arcSlots, closed: ring.isFullCircle };
+  };
+  // Stretch mode lays the pattern on its own slot count, shown when it differs from the ring's
+  const stretchedDivisions = () => {
+    if (fitMode() !== "stretch") return null;
+    const ring = storeRing();
+    if (!ring) return null;
+    const divisions = Math.round(ring.effectiveDivisions(layerIndex()));
+    return divisions === ring.divisions ? null : divisions;
+  };
+
+  const layout = () => {
+    rings();
+    const ring = storeRing();
+    return {
+      divisions: ring?.divisions ?? 0,
+      phaseOffset: storeLayer()?.phaseOffset ?? 0,
+      phaseUnit: storeLayer()?.phaseUnit ?? ("slots" as PhaseUnit),
+      arcStart: ring?.arcStart ?? 0,
+      arcSweep: ring?.arcSweep ?? 360,
+    };
+  };
+
+  const path = (): RingPath => {
+    rings();
+    return storeRing()?.path ?? DEFAULT_RING_PATH;
+  };
+
+  const placement = () => {
+    rings();
+    const ring = storeRing();
+    return { radius: ring?.radius ?? 0, pinned: ring?.radiusOverride != null };
+  };
+
+  const handleRadiusChange = (radius: number | null) => {
+    const p = props.getP();
+    if (p && (radius === null || (Number.isFinite(radius) && radius > 0))) {
+      setRingRadius(props.index, radius, p);
+      props.requestRedraw();
+    }
+  };
+
+  const handleDivisionsChange = (value: number) => {
+    const p = props.getP();
+    if (p && Number.isFinite(value)) {
+      setRingDivisions(props.index, value, p);
+      props.requestRedraw();
+    }
+  };
+
+  const handlePhaseChange = (offset: number, unit: PhaseUnit) => {
+    const p = props.getP();
+    if (p && Number.isFinite(offset)) {
+      setRingPhase(props.index, offset, unit, p, layerIndex());
+      props.requestRedraw();
+    }
+  };
+
+  const handleArcChange = (start: number, sweep: number) => {
+    const p = props.getP();
+    if (p && Number.isFinite(start) && Number.isFinite(sweep)) {
+      setRingArc(props.index, start, sweep, p);
+      props.requestRedraw();
+    }
+  };
+
+  const handlePathChange = (updates: Partial<RingPath>) => {
+    const p = props.getP();
+    if (p && Object.values(updates).every((value) => typeof value === "string" || Number.isFinite(value))) {
+      setRingPath(props.index, updates, p);
+      props.requestRedraw();
+    }
+  };
+
+  // The artwork's enabled gradients and how this ring takes each one
+  const ringGradients = () => {
+    rings();
+    const ring = storeRing();
+    const params = Array.from(new Set(paramGradients().filter((g) => g.enabled).map((g) => g.param)));
+    return params.map((param) => ({
+      param,
+      follow: !(ring?.ignoredGradients.includes(param) ?? false),
+      offset: ring?.gradientOffsets[param] ?? 0,
+    }));
+  };
+
+  const handleGradientOffsetChange = (param: string, offset: number) => {
+    if (Number.isFinite(offset)) setRingGradient(props.index, param, { offset });
+  };
+
+  const strokeOverride = (key: RingStrokeSetting) => {
+    rings();
+    return storeRing()?.strokeOverrides[key];
+  };
+
+  // An empty field returns the ring to the global value
+  const handleStrokeOverrideChange = (key: RingStrokeSetting, text: string) => {
+    if (text.trim() === "") setRingStrokeOverride(props.index, key, null);
+    else if (Number.isFinite(parseFloat(text))) setRingStrokeOverride(props.index, key, parseFloat(text));
+  };
+
+  // Keep the ring where it is when switching units
+  const handlePhaseUnitChange = (unit: PhaseUnit) => {
+    const { divisions, phaseOffset, phaseUnit } = layout();
+    if (unit === phaseUnit) return;
+    const slotDegrees = 360 / divisions;
+    const converted = unit === "degrees" ? phaseOffset * slotDegrees : phaseOffset / slotDegrees;
+    handlePhaseChange(Math.round(converted * 100) / 100, unit);
+  };
+
+  const handleFitModeChange = (mode: PatternFitMode) => {
+    const p = props.getP();
+    if (p) {
+      setRingFitMode(props.index, mode, p);
+      props.requestRedraw();
+    }
+  };
+
   const handleVisibilityChange = (checked: boolean) => {
     setIsVisible(checked);
     updateRing(props.index, { visible: checked });
     markChanges();
   };
 
+  const isLayerVisible = (i: number) => {
+    rings();
+    return storeRing()?.layers[i]?.visible ?? true;
+  };
+
+  const handleAddLayer = () => {
+    const p = props.getP();
+    if (!p) return;
+    const added = addRingLayer(props.index, p);
+    if (added !== null) setActiveLayer(added);
+    props.requestRedraw();
+  };
+
+  const handleRemoveLayer = () => {
+    removeRingLayer(props.index, layerIndex());
+    setActiveLayer(layerIndex() - 1);
+    props.requestRedraw();
+  };
+
+  const handleLayerVisibilityChange = (checked: boolean) => {
+    setRingLayerVisible(props.index, layerIndex(), checked);
+    props.requestRedraw();
+  };
+
+  // The list shows the outermost ring first, so "above" is outside this ring
+  const canAdd = () => rings().length < RING_COUNT_RANGE.max;
+  const canRemove = () => rings().length > RING_COUNT_RANGE.min;
+
+  const withP = (action: (p: p5) => void) => () => {
+    const p = props.getP();
+    if (p) {
+      action(p);
+      props.requestRedraw();
+    }
+  };
+
   return (
     <div class="ring-control">
         {/* Ring Header */}
         <div class="ring-header">
-          <span>Ring {props.index}</span>
+          <span>
+            <span
+              class="ring-drag-handle"
+              draggable={true}
+              onDragStart={(e) => props.onDragStart?.(e)}
+              onDragEnd={() => props.onDragEnd?.()}
+              title="Drag to reorder"
+            >
+              ⠿
+            </span>
+            Ring {props.index}
+          </span>
           <div class="ring-header-controls">
+            <div class="ring-list-actions">
+              <button
+                class="collapse-btn"
+                onClick={withP((p) => insertRing(props.index + 1, p))}
+                disabled={!canAdd()}
+                title="Insert a ring above (outside) this one"
+              >
+                +↑
+              </button>
+              <button
+                class="collapse-btn"
+                onClick={withP((p) => insertRing(props.index, p))}
+                disabled={!canAdd()}
+                title="Insert a ring below (inside) this one"
+              >
+                +↓
+              </button>
+              <button
+                class="collapse-btn"
+                onClick={withP((p) => duplicateRing(props.index, p))}
+                disabled={!canAdd()}
+                title="Duplicate this ring with all its settings"
+              >
+                ⧉
+              </button>
+              <button
+                class="collapse-btn"
+                onClick={withP((p) => removeRing(props.index, p))}
+                disabled={!canRemove()}
+                title="Delete this ring"
+              >
+                ✕
+              </button>
+            </div>
+            <Show when={isStochastic()}>
+              <button
+                class="collapse-btn"
+                onClick={handleReroll}
+                title="Reroll random choices for this ring"
+              >
+                🎲
+              </button>
+            </Show>
             <label class="ring-visibility">
               <input
                 type="checkbox"
@@ -117,33 +453,331 @@ const RingControl: Component<{
           </div>
         </div>
 
+        {/* Layer tabs: motifs stacked at this ring's radius */}
+        <div class="ring-layer-tabs">
+          <For each={Array.from({ length: layerCount() }, (_, i) => i)}>
+            {(i) => (
+              <button
+                class={`ring-layer-tab ${layerIndex() === i ? "active" : ""} ${isLayerVisible(i) ? "" : "hidden-layer"}`}
+                onClick={() => setActiveLayer(i)}
+                title={i === 0 ? "The ring's main grammar" : `Layer ${i + 1}, drawn over the layers before it`}
+              >
+                Layer {i + 1}
+              </button>
+            )}
+          </For>
+          <button class="collapse-btn" onClick={handleAddLayer} title="Add a layer on top of this ring">
+            +
+          </button>
+          <Show when={layerIndex() > 0}>
+            <label class="ring-visibility">
+              <input
+                type="checkbox"
+                checked={isLayerVisible(layerIndex())}
+                onChange={(e) => handleLayerVisibilityChange(e.currentTarget.checked)}
+              />
+              Layer visible
+            </label>
+            <button class="collapse-btn" onClick={handleRemoveLayer} title="Remove this layer">
+              ✕
+            </button>
+          </Show>
+        </div>
+
         {/* Grammar Input */}
         <div class="grammar-row">
           <span>Grammar:</span>
           <div class="grammar-input-container">
             <input
-              value={grammarString()}
+              value={displayedGrammar()}
               onInput={(e) => handleGrammarInput(e.currentTarget.value)}
               onKeyDown={handleKeyDown}
-              class="grammar-input"
-              placeholder="Enter grammar (e.g., d3h2v)"
+              class={`grammar-input ${hasErrors() ? "invalid" : ""}`}
+              placeholder="Enter grammar (e.g., (dxh)3v2)"
+              readOnly={isGenerated()}
+              title={isGenerated() ? "Generated by the L-system; turn it off to edit" : undefined}
             />
+            <Show when={!isGenerated()}>
+              <button
+                onClick={handleGrammarSubmit}
+                class="grammar-submit-btn"
+                title={hasErrors() ? "Fix grammar errors before applying" : "Apply grammar changes"}
+                disabled={hasErrors()}
+              >
+                ✓
+              </button>
+            </Show>
+            <Show when={isUpdating()}>
+              <span class="updating-indicator">⟳</span>
+            </Show>
+          </div>
+          <Show
+            when={
+              diagnostics() &&
+              diagnostics()!.errors.length + diagnostics()!.warnings.length > 0
+            }
+          >
+            <GrammarDiagnostics
+              grammar={displayedGrammar().trim()}
+              errors={diagnostics()!.errors}
+              warnings={diagnostics()!.warnings}
+            />
+          </Show>
+        </div>
+
+        {/* Radius */}
+        <div class="grammar-row">
+          <span>Radius:</span>
+          <input
+            type="range"
+            min="0.01"
+            max="1"
+            step="0.001"
+            value={placement().radius}
+            onInput={(e) => handleRadiusChange(parseFloat(e.currentTarget.value))}
+            class="ring-radius-range"
+          />
+          <input
+            type="number"
+            min="1"
+            step="0.5"
+            value={toPercent(placement().radius)}
+            onChange={(e) => handleRadiusChange(parseFloat(e.currentTarget.value) / 100)}
+            class="grammar-input ring-number-input"
+            title="Percent of the wheel's radius"
+          />
+          <Show when={placement().pinned}>
             <button
-              onClick={handleGrammarSubmit}
-              class="grammar-submit-btn"
-              title="Apply grammar changes"
+              class="collapse-btn"
+              onClick={() => handleRadiusChange(null)}
+              title="Return this ring to the artwork's ring spacing"
             >
-              ✓
+              Auto
             </button>
-            <Show when={isUpdating()}>
-              <span class="updating-indicator">⟳</span>
+          </Show>
+        </div>
+
+        {/* Divisions and Phase */}
+        <div class="grammar-row">
+          <span>Divisions:</span>
+          <input
+            type="number"
+            min={DIVISIONS_RANGE.min}
+            max={DIVISIONS_RANGE.max}
+            step="1"
+            value={layout().divisions}
+            onChange={(e) => handleDivisionsChange(parseInt(e.currentTarget.value))}
+            class="grammar-input ring-number-input"
+          />
+          <span>Phase:</span>
+          <input
+            type="number"
+            step={layout().phaseUnit === "slots" ? "0.25" : "1"}
+            value={layout().phaseOffset}
+            onChange={(e) => handlePhaseChange(parseFloat(e.currentTarget.value), layout().phaseUnit)}
+            class="grammar-input ring-number-input"
+          />
+          <select
+            value={layout().phaseUnit}
+            onChange={(e) => handlePhaseUnitChange(e.currentTarget.value as PhaseUnit)}
+            class="grammar-input"
+          >
+            <option value="slots">slots</option>
+            <option value="degrees">degrees</option>
+          </select>
+        </div>
+
+        {/* Arc: how much of the circle the ring covers */}
+        <div class="grammar-row">
+          <span>Arc start:</span>
+          <input
+            type="number"
+            step="1"
+            value={layout().arcStart}
+            onChange={(e) => handleArcChange(parseFloat(e.currentTarget.value), layout().arcSweep)}
+            class="grammar-input ring-number-input"
+            title="Degrees clockwise from the ring's phase"
+          />
+          <span>Sweep:</span>
+          <input
+            type="range"
+            min="1"
+            max="360"
+            step="1"
+            value={layout().arcSweep}
+            onInput={(e) => handleArcChange(layout().arcStart, parseFloat(e.currentTarget.value))}
+            class="ring-radius-range"
+          />
+          <span>{layout().arcSweep}°</span>
+        </div>
+
+        {/* Path: the curve glyphs are laid out along */}
+        <div class="grammar-row">
+          <span>Path:</span>
+          <select
+            value={path().type}
+            onChange={(e) => handlePathChange({ type: e.currentTarget.value as RingPathType })}
+            class="grammar-input"
+          >
+            <For each={RING_PATH_TYPES}>{(type) => <option value={type.value}>{type.label}</option>}</For>
+          </select>
+          <select
+            value={path().align}
+            onChange={(e) => handlePathChange({ align: e.currentTarget.value as GlyphAlignment })}
+            class="grammar-input"
+            title="Turn glyphs with the path's tangent or its normal"
+          >
+            <option value="tangent">tangent</option>
+            <option value="normal">normal</option>
+          </select>
+        </div>
+        <Show when={path().type !== "circle"}>
+          <div class="grammar-row">
+            <Show when={path().type === "ellipse" || path().type === "superellipse"}>
+              <span>Aspect:</span>
+              <input
+                type="number"
+                min="0.1"
+                max="4"
+                step="0.05"
+                value={path().aspect}
+                onChange={(e) => handlePathChange({ aspect: parseFloat(e.currentTarget.value) })}
+                class="grammar-input ring-number-input"
+              />
             </Show>
+            <Show when={path().type === "superellipse"}>
+              <span>Exponent:</span>
+              <input
+                type="number"
+                min="0.5"
+                max="20"
+                step="0.5"
+                value={path().exponent}
+                onChange={(e) => handlePathChange({ exponent: parseFloat(e.currentTarget.value) })}
+                class="grammar-input ring-number-input"
+              />
+            </Show>
+            <Show when={path().type === "polygon"}>
+              <span>Sides:</span>
+              <input
+                type="number"
+                min="3"
+                max="24"
+                step="1"
+                value={path().sides}
+                onChange={(e) => handlePathChange({ sides: parseInt(e.currentTarget.value) })}
+                class="grammar-input ring-number-input"
+              />
+            </Show>
+            <Show when={path().type === "spiral"}>
+              <span>Turns:</span>
+              <input
+                type="number"
+                min="0.25"
+                max="12"
+                step="0.25"
+                value={path().turns}
+                onChange={(e) => handlePathChange({ turns: parseFloat(e.currentTarget.value) })}
+                class="grammar-input ring-number-input"
+              />
+            </Show>
+            <span>Tilt:</span>
+            <input
+              type="number"
+              step="1"
+              value={path().tilt}
+              onChange={(e) => handlePathChange({ tilt: parseFloat(e.currentTarget.value) })}
+              class="grammar-input ring-number-input"
+              title="Degrees the path is rotated"
+            />
           </div>
+        </Show>
+
+        {/* Stroke overrides */}
+        <div class="grammar-row">
+          <span>Nib:</span>
+          <For each={STROKE_OVERRIDE_FIELDS}>
+            {(field) => (
+              <label class="ring-gradient">
+                {field.label}
+                <input
+                  type="number"
+                  min={RING_STROKE_SETTING_RANGES[field.key].min}
+                  max={RING_STROKE_SETTING_RANGES[field.key].max}
+                  step={RING_STROKE_SETTING_RANGES[field.key].step}
+                  value={strokeOverride(field.key) ?? ""}
+                  placeholder={String(globals()[field.key])}
+                  onChange={(e) => handleStrokeOverrideChange(field.key, e.currentTarget.value)}
+                  class="grammar-input ring-number-input"
+                  title="This ring's own value; leave empty to use the global setting"
+                />
+              </label>
+            )}
+          </For>
         </div>
 
+        {/* Gradients */}
+        <Show when={ringGradients().length > 0}>
+          <div class="grammar-row">
+            <span>Gradients:</span>
+            <For each={ringGradients()}>
+              {(gradient) => (
+                <span class="ring-gradient">
+                  <label class="ring-visibility" title={`Follow the ${gradient.param} gradient`}>
+                    <input
+                      type="checkbox"
+                      checked={gradient.follow}
+                      onChange={(e) => setRingGradient(props.index, gradient.param, { follow: e.currentTarget.checked })}
+                    />
+                    {gradient.param}
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={gradient.offset}
+                    disabled={!gradient.follow}
+                    onChange={(e) => handleGradientOffsetChange(gradient.param, parseFloat(e.currentTarget.value))}
+                    class="grammar-input ring-number-input"
+                    title="Added to the gradient's value on this ring"
+                  />
+                </span>
+              )}
+            </For>
+          </div>
+        </Show>
+
+        {/* Pattern Fit */}
+        <Show when={hasPattern()}>
+          <div class="grammar-row">
+            <span>Fit:</span>
+            <select
+              value={fitMode()}
+              onChange={(e) => handleFitModeChange(e.currentTarget.value as PatternFitMode)}
+              class="grammar-input"
+            >
+              <option value="truncate">Truncate</option>
+              <option value="stretch">Stretch divisions</option>
+              <option value="nearest-divisor">Pad to divisor</option>
+              <option value="single-pass">Single pass</option>
+            </select>
+            <Show when={seam()}>
+              <div class="grammar-message grammar-message-warning">
+                ⚠ {seam()!.length} symbols don't divide {seam()!.divisions} slots, so the
+                motif breaks where the {seam()!.closed ? "ring closes" : "arc ends"}
+              </div>
+            </Show>
+            <Show when={stretchedDivisions()}>
+              <div class="grammar-message">
+                Stretched to {stretchedDivisions()} divisions to fit whole copies
+              </div>
+            </Show>
+          </div>
+        </Show>
+
         {/* Symbol Controls */}
         <SymbolControls
           ringIndex={props.index}
+          layerIndex={layerIndex()}
           grammarString={grammarString()}
           getP={props.getP}
           requestRedraw={props.requestRedraw}
@@ -152,9 +786,71 @@ const RingControl: Component<{
   );
 };
 
+// Component that echoes the grammar with problem spans highlighted, plus the messages
+const GrammarDiagnostics: Component<{
+  grammar: string;
+  errors: GrammarDiagnostic[];
+  warnings: GrammarDiagnostic[];
+}> = (props) => {
+  // Split the grammar into runs of characters sharing the same severity (errors win)
+  const segments = createMemo(() => {
+    const marks: Array<"error" | "warning" | null> = Array.from(
+      { length: props.grammar.length },
+      () => null
+    );
+    for (const warning of props.warnings) {
+      for (let i = warning.start; i < warning.end && i < marks.length; i++) {
+        marks[i] = "warning";
+      }
+    }
+    for (const error of props.errors) {
+      for (let i = error.start; i < error.end && i < marks.length; i++) {
+        marks[i] = "error";
+      }
+    }
+
+    const runs: { text: string; mark: "error" | "warning" | null }[] = [];
+    for (let i = 0; i < props.grammar.length; i++) {
+      const last = runs[runs.length - 1];
+      if (last && last.mark === marks[i]) {
+        last.text += props.grammar[i];
+      } else {
+        runs.push({ text: props.grammar[i], mark: marks[i] });
+      }
+    }
+    return runs;
+  });
+
+  return (
+    <div class="grammar-diagnostics">
+      <div class="grammar-highlight">
+        <For each={segments()}>
+          {(segment) => (
+            <span
+              class={
+                segment.mark ? `grammar-span-${segment.mark}` : undefined
+              }
+            >
+              {segment.text}
+            </span>
+          )}
+        </For>
+      </div>
+      <For each={[...props.errors, ...props.warnings]}>
+        {(diagnostic) => (
+          <div class={`grammar-message grammar-message-${diagnostic.severity}`}>
+            {diagnostic.severity === "error" ? "✕" : "⚠"} col {diagnostic.start + 1}: {diagnostic.message}
+          </div>
+        )}
+      </For>
+    </div>
+  );
+};
+
 // Component for symbol-specific controls
 const SymbolControls: Component<{
   ringIndex: number;
+  layerIndex: number;
   grammarString: string;
   getP: () => any;
   requestRedraw: () => void;
@@ -166,82 +862,41 @@ const SymbolControls: Component<{
     return ring;
   });
 
-  // Get grammar string directly from the store ring for better reactivity
+  // The layer being edited, re-read whenever the rings change
+  const layer = () => {
+    rings();
+    return ring()?.layers[props.layerIndex];
+  };
+
+  // Get grammar string directly from the store layer for better reactivity
   const grammarString = createMemo(() => {
-    const storeRing = ring();
-    const grammar = storeRing?.grammarString || "";
+    const grammar = layer()?.grammarString || "";
     return grammar;
   });
 
-  // Parse the grammar string directly to determine available symbols
-  const availableSymbols = createMemo(() => {
-    const grammar = grammarString()?.trim();
-    if (!grammar || grammar === "" || grammar === "-") return [];
-
-    // Parse the grammar string to get unique symbols (excluding 'x')
-    const symbols = new Set<string>();
-    let i = 0;
-    while (i < grammar.length) {
-      const raw = grammar[i];
-      let numStr = "";
-      let j = i + 1;
-      while (
-        j < grammar.length &&
-        !Number.isNaN(Number(grammar[j])) &&
-        grammar[j] !== " "
-      ) {
-        numStr += grammar[j];
-        j++;
-      }
-
-      const baseChar = raw.toLowerCase();
-      if ("dhlv".includes(baseChar)) {
-        symbols.add(baseChar);
-      }
-      i = j;
-    }
-
-    return Array.from(symbols);
+  // Expanded grammar items as laid out on the ring (groups, repeats and seeded choices resolved)
+  const parsedItems = createMemo(() => {
+    const storeLayer = layer(); // re-read after rerolls, which keep the grammar string unchanged
+    if (!storeLayer) return [];
+    return storeLayer.pattern.filter((item) => item.char !== "x");
   });
 
+  // Unique symbols in the grammar (excluding 'x')
+  const availableSymbols = createMemo(() =>
+    Array.from(new Set(parsedItems().map((item) => item.char)))
+  );
+
   // Group symbols by base character and rotation
   const symbolGroups = createMemo(() => {
     const groups = new Map<string, { rotated: boolean; count: number }>();
-    const grammar = grammarString()?.trim();
-    
-    
-    if (!grammar || grammar === "" || grammar === "-") return groups;
-
-    let i = 0;
-    while (i < grammar.length) {
-      const raw = grammar[i];
-      let numStr = "";
-      let j = i + 1;
-      while (
-        j < grammar.length &&
-        !Number.isNaN(Number(grammar[j])) &&
-        grammar[j] !== " "
-      ) {
-        numStr += grammar[j];
-        j++;
-      }
-
-      const isUpper = raw === raw.toUpperCase() && raw !== raw.toLowerCase();
-      const baseChar = raw.toLowerCase();
-
-
-      if ("dhlv".includes(baseChar)) {
-        const repeat = numStr === "" ? 1 : parseInt(numStr, 10);
-        const key = `${baseChar}${isUpper ? "R" : "N"}`;
-        if (groups.has(key)) {
-          groups.get(key)!.count += repeat;
-        } else {
-          groups.set(key, { rotated: isUpper, count: repeat });
-        }
+    for (const item of parsedItems()) {
+      const key = `${item.char}${item.rotated ? "R" : "N"}`;
+      if (groups.has(key)) {
+        groups.get(key)!.count += 1;
+      } else {
+        groups.set(key, { rotated: item.rotated, count: 1 });
       }
-      i = j;
     }
-
     return groups;
   });
 
@@ -259,7 +914,7 @@ const SymbolControls: Component<{
       <div>
         {/* Solid Ring Controls */}
         <Show when={isSolidRing()}>
-          <SolidRingControls ring={ring()} />
+          <SolidRingControls ring={layer()} />
         </Show>
 
         {/* Symbol-specific Controls */}
@@ -269,10 +924,11 @@ const SymbolControls: Component<{
         <For each={Array.from(symbolGroups().entries())}>
           {([key, info]) => (
             <SymbolGroupControls
-              ring={ring()}
+              ring={layer()}
               symbolKey={key}
               info={info}
               ringIndex={props.ringIndex}
+              layerIndex={props.layerIndex}
               getP={props.getP}
               requestRedraw={props.requestRedraw}
             />
@@ -316,6 +972,7 @@ const SymbolGroupControls: Component<{
   symbolKey: string;
   info: { rotated: boolean; count: number };
   ringIndex: number;
+  layerIndex: number;
   getP: () => any;
   requestRedraw: () => void;
 }> = (props) => {
@@ -334,12 +991,23 @@ const SymbolGroupControls: Component<{
     // If shape options don't exist, create default ones
     if (!shapeOptions && grammar) {
       // This is a fallback - the ring should have shape options set up by setPattern
-      return getDefaultShapeOptions(symbol);
+      return getDefaultGlyphOptions(symbol);
     }
 
     return shapeOptions;
   });
 
+  // Read through rings() so the editor follows store updates
+  const modulationFor = (paramKey: string): Modulation | undefined => {
+    rings();
+    return props.ring?.modulations?.[baseChar()]?.[paramKey];
+  };
+
+  const handleModulationChange = (paramKey: string, modulation: Modulation | null) => {
+    setRingModulation(props.ringIndex, props.layerIndex, baseChar(), paramKey, modulation);
+    props.requestRedraw();
+  };
+
   const rotationText = () => (props.info.rotated ? " (Rotated)" : "");
   const countText = () => (props.info.count > 1 ? ` ×${props.info.count}` : "");
 
@@ -347,7 +1015,7 @@ const SymbolGroupControls: Component<{
     <Show when={opts()}>
       <div class="symbol-controls">
         <div class="symbol-group-header">
-          Controls for {baseChar().toUpperCase()}
+          Controls for {baseChar().toUpperCase()} ({getGlyphName(baseChar())})
           {rotationText()}
           {countText()}
         </div>
@@ -358,6 +1026,8 @@ const SymbolGroupControls: Component<{
               paramKey={paramKey}
               param={opts()![paramKey]}
               requestRedraw={props.requestRedraw}
+              modulation={modulationFor(paramKey)}
+              onModulationChange={(modulation) => handleModulationChange(paramKey, modulation)}
             />
           )}
         </For>
@@ -365,8 +1035,9 @@ const SymbolGroupControls: Component<{
         {/* Stroke Color Control */}
         <Show when={props.ring}>
           <StrokeColorControl
-            strokeType={baseChar() as 'd' | 'l' | 'h' | 'v' | '-'}
+            strokeType={baseChar()}
             ringIndex={props.ringIndex}
+            layerIndex={props.layerIndex}
             getP={props.getP}
             requestRedraw={props.requestRedraw}
           />
@@ -382,6 +1053,8 @@ const ParameterSlider: Component<{
   paramKey: string;
   param: { min: number; max: number; value: number } | undefined;
   requestRedraw: () => void;
+  modulation?: Modulation;
+  onModulationChange?: (modulation: Modulation | null) => void;
 }> = (props) => {
   const [value, setValue] = createSignal(props.param?.value ?? 0);
 
@@ -407,6 +1080,18 @@ const ParameterSlider: Component<{
     return delta > 0 ? delta / 100 : 0.01;
   };
 
+  const updateModulation = (updates: Partial<Modulation>) => {
+    const current = props.modulation ?? DEFAULT_MODULATION;
+    const next = { ...current, ...updates };
+    if (!Number.isFinite(next.amount) || !Number.isFinite(next.frequency) || !Number.isFinite(next.phase)) return;
+    next.amount = Math.min(1, Math.max(0, next.amount));
+    props.onModulationChange?.(next);
+  };
+
+  const toggleModulation = () => {
+    props.onModulationChange?.(props.modulation ? null : { ...DEFAULT_MODULATION });
+  };
+
   return (
     <Show when={props.param}>
       <div class="symbol-control-row">
@@ -422,15 +1107,76 @@ const ParameterSlider: Component<{
           onChange={(e) => handleChange(Number(e.currentTarget.value))}
           class="symbol-slider"
         />
+        <Show when={props.onModulationChange}>
+          <button
+            type="button"
+            class="modulation-toggle"
+            classList={{ active: Boolean(props.modulation) }}
+            onClick={toggleModulation}
+            title={props.modulation ? "Stop modulating this parameter" : "Modulate this parameter around the ring"}
+          >
+            ∿
+          </button>
+        </Show>
       </div>
+      <Show when={props.modulation}>
+        {(modulation) => (
+          <div class="symbol-control-row modulation-row">
+            <select
+              value={modulation().source}
+              onChange={(e) => updateModulation({ source: e.currentTarget.value as ModulationSource })}
+              class="grammar-input"
+            >
+              <For each={MODULATION_SOURCES}>{(source) => <option value={source.value}>{source.label}</option>}</For>
+            </select>
+            <label title="How far the value moves, as a share of half its range">
+              Amount
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={modulation().amount}
+                onChange={(e) => updateModulation({ amount: Number(e.currentTarget.value) })}
+                class="symbol-slider"
+              />
+            </label>
+            <label title="Cycles around the ring">
+              Freq
+              <input
+                type="number"
+                min="0"
+                max="64"
+                step="0.5"
+                value={modulation().frequency}
+                onChange={(e) => updateModulation({ frequency: parseFloat(e.currentTarget.value) })}
+                class="grammar-input ring-number-input"
+              />
+            </label>
+            <label title="Shift along the cycle, 0 to 1">
+              Phase
+              <input
+                type="number"
+                min="0"
+                max="1"
+                step="0.05"
+                value={modulation().phase}
+                onChange={(e) => updateModulation({ phase: parseFloat(e.currentTarget.value) })}
+                class="grammar-input ring-number-input"
+              />
+            </label>
+          </div>
+        )}
+      </Show>
     </Show>
   );
 };
 
 // Component for stroke color controls
 const StrokeColorControl: Component<{
-  strokeType: 'd' | 'l' | 'h' | 'v' | '-';
+  strokeType: StrokeName;
   ringIndex: number;
+  layerIndex: number;
   getP: () => any;
   requestRedraw: () => void;
 }> = (props) => {
@@ -468,8 +1214,10 @@ const StrokeColorControl: Component<{
       
       if (!ring) return 0; // Default to first palette color
       
-      // Check if there's a custom assignment
-      const custom = assignment.customAssignments[props.ringIndex.toString()]?.[props.strokeType];
+      // Check if there's a custom assignment; extra layers keep theirs on the layer
+      const custom = props.layerIndex > 0
+        ? ring.layers[props.layerIndex]?.strokeColors[props.strokeType]
+        : assignment.customAssignments[props.ringIndex.toString()]?.[props.strokeType];
       if (custom !== undefined) {
         return custom;
       }
@@ -485,7 +1233,7 @@ const StrokeColorControl: Component<{
   const handleColorChange = (colorIndex: number) => {
     try {
       // Set specific color assignment
-      setStrokeColorAssignment(props.ringIndex, props.strokeType, colorIndex);
+      setStrokeColorAssignment(props.ringIndex, props.strokeType, colorIndex, props.layerIndex);
       props.requestRedraw();
     } catch (error) {
     }
@@ -563,17 +1311,9 @@ const GlobalControls: Component<RingsControlsProps> = (props) => {
   // Handlers
   const performRerender = () => {
     if (hasChanges()) {
-      // Update all particles' stroke data before redrawing
+      // Apply gradients and update all particles' stroke data before redrawing
       const p = props.getP();
-      if (p) {
-        // Get current rings and update their particles
-        const currentRings = rings();
-        currentRings.forEach((ring: Ring) => {
-          if (!ring.isSolidRing) {
-            ring.updateParticles(p);
-          }
-        });
-      }
+      if (p) applyRingChanges(p);
       clearChanges();
       props.requestRedraw();
     }
@@ -599,6 +1339,13 @@ const GlobalControls: Component<RingsControlsProps> = (props) => {
     updateGlobalSetting('globalStrokeWidth', value);
   };
 
+  // No value picks a random seed
+  const handleSeedChange = (value?: number) => {
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) return;
+    reseedArtwork(value);
+    props.requestRedraw();
+  };
+
   return (
     <div class="global-controls-compact">
       <div class="global-control-item">
@@ -656,16 +1403,553 @@ const GlobalControls: Component<RingsControlsProps> = (props) => {
         />
         <span class="global-control-value">{globalStrokeWidth().toFixed(1)}</span>
       </div>
+
+      <div class="global-control-item">
+        <label class="global-control-label">Seed</label>
+        <div class="global-seed-row">
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={artworkSeed()}
+            onChange={(e) => handleSeedChange(parseInt(e.currentTarget.value))}
+            class="global-seed-input"
+            title="Seeds each glyph's randomness jitter; the same seed redraws the same artwork"
+          />
+          <button class="collapse-btn" onClick={() => handleSeedChange()} title="Pick a new seed">
+            🎲
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// How rings are spread between the inner and outer radius
+const SpacingControls: Component<RingsControlsProps> = (props) => {
+  const apply = (updates: Parameters<typeof updateRingSpacing>[0]) => {
+    const p = props.getP();
+    if (!p) return;
+    updateRingSpacing(updates, p);
+    props.requestRedraw();
+  };
+
+  const handleRadiusChange = (key: "innerRadius" | "outerRadius", value: number) => {
+    if (Number.isFinite(value) && value > 0) apply({ [key]: value });
+  };
+
+  const handleEasingChange = (k: number, value: number) => {
+    if (!Number.isFinite(value)) return;
+    const easing = [...ringSpacing().easing] as EasingCurve;
+    // x values must stay in 0..1 for the curve to be a function of x
+    easing[k] = k % 2 === 0 ? Math.min(1, Math.max(0, value)) : value;
+    apply({ easing });
+  };
+
+  return (
+    <div class="macro-controls">
+      <div class="symbol-group-header">Ring Spacing</div>
+      <div class="macro-row">
+        <span class="macro-name">Mode</span>
+        <select
+          value={ringSpacing().mode}
+          onChange={(e) => apply({ mode: e.currentTarget.value as RingSpacingMode })}
+          class="grammar-input"
+        >
+          <For each={RING_SPACING_MODES}>{(mode) => <option value={mode.value}>{mode.label}</option>}</For>
+        </select>
+      </div>
+      <div class="macro-row">
+        <span class="macro-name">Inner</span>
+        <input
+          type="number"
+          min="1"
+          step="0.5"
+          value={toPercent(ringSpacing().innerRadius)}
+          onChange={(e) => handleRadiusChange("innerRadius", parseFloat(e.currentTarget.value) / 100)}
+          class="grammar-input ring-number-input"
+          title="Percent of the wheel's radius"
+        />
+        <span class="macro-name">Outer</span>
+        <input
+          type="number"
+          min="1"
+          step="0.5"
+          value={toPercent(ringSpacing().outerRadius)}
+          onChange={(e) => handleRadiusChange("outerRadius", parseFloat(e.currentTarget.value) / 100)}
+          class="grammar-input ring-number-input"
+          title="Percent of the wheel's radius"
+        />
+      </div>
+      <Show when={ringSpacing().mode === "easing"}>
+        <div class="macro-row">
+          <span class="macro-name">Curve</span>
+          <For each={[0, 1, 2, 3]}>
+            {(k) => (
+              <input
+                type="number"
+                step="0.05"
+                value={ringSpacing().easing[k]}
+                onChange={(e) => handleEasingChange(k, parseFloat(e.currentTarget.value))}
+                class="grammar-input ring-number-input"
+                title={["x1", "y1", "x2", "y2"][k] + " of cubic-bezier(x1, y1, x2, y2)"}
+              />
+            )}
+          </For>
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+// Artwork-level gradients: one parameter set from the inner ring to the outer ring
+const GradientControls: Component<RingsControlsProps> = () => {
+  // Glyph slider keys used anywhere in the artwork, then the per-ring stroke settings
+  const paramKeys = createMemo(() => {
+    const keys = new Set<string>();
+    for (const ring of rings()) {
+      for (const layer of ring.layers) {
+        for (const options of Object.values(layer.shapeOptions)) Object.keys(options).forEach((key) => keys.add(key));
+      }
+    }
+    for (const gradient of paramGradients()) keys.add(gradient.param);
+    RING_STROKE_SETTINGS.forEach((key) => keys.delete(key));
+    return [...Array.from(keys).sort(), ...RING_STROKE_SETTINGS];
+  });
+
+  const handleNumberChange = (index: number, key: "from" | "to", value: number) => {
+    if (Number.isFinite(value)) updateParamGradient(index, { [key]: value });
+  };
+
+  return (
+    <div class="macro-controls">
+      <div class="symbol-group-header">Gradients</div>
+      <For each={paramGradients()}>
+        {(gradient: ParamGradient, index) => (
+          <div class="macro-row gradient-row">
+            <input
+              type="checkbox"
+              checked={gradient.enabled}
+              onChange={(e) => updateParamGradient(index(), { enabled: e.currentTarget.checked })}
+              title="Apply this gradient"
+            />
+            <select
+              value={gradient.param}
+              onChange={(e) => updateParamGradient(index(), { param: e.currentTarget.value })}
+              class="grammar-input"
+            >
+              <For each={paramKeys()}>{(key) => <option value={key}>{key}</option>}</For>
+            </select>
+            <span class="macro-name">From</span>
+            <input
+              type="number"
+              step="0.1"
+              value={gradient.from}
+              onChange={(e) => handleNumberChange(index(), "from", parseFloat(e.currentTarget.value))}
+              class="grammar-input ring-number-input"
+              title="Value on the innermost ring"
+            />
+            <span class="macro-name">to</span>
+            <input
+              type="number"
+              step="0.1"
+              value={gradient.to}
+              onChange={(e) => handleNumberChange(index(), "to", parseFloat(e.currentTarget.value))}
+              class="grammar-input ring-number-input"
+              title="Value on the outermost ring"
+            />
+            <select
+              value={gradient.axis}
+              onChange={(e) => updateParamGradient(index(), { axis: e.currentTarget.value as GradientAxis })}
+              class="grammar-input"
+              title="Place rings along the gradient by their index or their radius"
+            >
+              <option value="index">by index</option>
+              <option value="radius">by radius</option>
+            </select>
+            <select
+              value={gradient.easing}
+              onChange={(e) => updateParamGradient(index(), { easing: e.currentTarget.value as GradientEasing })}
+              class="grammar-input"
+            >
+              <For each={GRADIENT_EASINGS}>{(easing) => <option value={easing.value}>{easing.label}</option>}</For>
+            </select>
+            <button class="collapse-btn" onClick={() => removeParamGradient(index())} title="Remove gradient">
+              ✕
+            </button>
+          </div>
+        )}
+      </For>
+      <div class="macro-row">
+        <button
+          onClick={() => addParamGradient(DEFAULT_GRADIENT)}
+          class="grammar-submit-btn"
+          title="Add a gradient across the rings"
+        >
+          + Gradient
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Artwork-level grammar macros (A = dxh) shared by every ring
+const MacroControls: Component<RingsControlsProps> = (props) => {
+  const [newName, setNewName] = createSignal("");
+  const [newBody, setNewBody] = createSignal("");
+  const [addError, setAddError] = createSignal<string | null>(null); // why the last add was refused
+
+  const macroEntries = createMemo(() =>
+    Object.entries(grammarMacros()).sort(([a], [b]) => a.localeCompare(b))
+  );
+
+  // Problems in a macro body, checked with the other macros available (cycles included)
+  const bodyErrors = (name: string, body: string) =>
+    parseGrammarWithDiagnostics(name, {
+      macros: { ...grammarMacros(), [name]: body },
+    }).errors;
+
+  const nameError = () => {
+    const name = newName().trim();
+    if (name === "") return null;
+    if (!isValidMacroName(name)) {
+      const taken = [...listGlyphs().map((glyph) => glyph.symbol.toUpperCase()), "X", "E"];
+      return `Use one uppercase letter other than ${taken.join(", ")}`;
+    }
+    return null;
+  };
+
+  // Whether the macro was set
+  const applyMacro = (name: string, body: string): boolean => {
+    const p = props.getP();
+    if (!p || body.trim() === "" || bodyErrors(name, body).length > 0) return false;
+    setGrammarMacro(name, body, p);
+    props.requestRedraw();
+    return true;
+  };
+
+  // Keep the inputs when the macro is refused, and say why
+  const handleAdd = () => {
+    const name = newName().trim();
+    const body = newBody();
+    if (name === "") return;
+    if (nameError()) return setAddError(nameError());
+    if (body.trim() === "") return setAddError("Enter a macro body");
+    const errors = bodyErrors(name, body);
+    if (errors.length > 0) return setAddError(errors.map((error) => error.message).join("; "));
+    if (!applyMacro(name, body)) return;
+    setNewName("");
+    setNewBody("");
+    setAddError(null);
+  };
+
+  const handleRemove = (name: string) => {
+    const p = props.getP();
+    if (!p) return;
+    removeGrammarMacro(name, p);
+    props.requestRedraw();
+  };
+
+  return (
+    <div class="macro-controls">
+      <div class="symbol-group-header">Macros</div>
+      <For each={macroEntries()}>
+        {([name, body]) => {
+          const [draft, setDraft] = createSignal(body);
+          const errors = createMemo(() => bodyErrors(name, draft()));
+          // An unchanged body would still reparse every ring using the macro
+          const commit = () => {
+            if (draft().trim() !== body) applyMacro(name, draft());
+          };
+          return (
+            <div class="macro-row">
+              <span class="macro-name">{name} =</span>
+              <input
+                value={draft()}
+                onInput={(e) => setDraft(e.currentTarget.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    commit();
+                  }
+                }}
+                onBlur={commit}
+                class={`grammar-input ${errors().length > 0 ? "invalid" : ""}`}
+                title={errors().map((error) => error.message).join("\n")}
+              />
+              <button
+                class="collapse-btn"
+                onClick={() => handleRemove(name)}
+                title={`Remove macro ${name}`}
+              >
+                ✕
+              </button>
+            </div>
+          );
+        }}
+      </For>
+      <div class="macro-row">
+        <input
+          value={newName()}
+          onInput={(e) => {
+            setNewName(e.currentTarget.value.toUpperCase());
+            setAddError(null);
+          }}
+          class={`grammar-input macro-name-input ${nameError() ? "invalid" : ""}`}
+          maxLength={1}
+          placeholder="A"
+          title={nameError() ?? "Macro name"}
+        />
+        <span class="macro-name">=</span>
+        <input
+          value={newBody()}
+          onInput={(e) => {
+            setNewBody(e.currentTarget.value);
+            setAddError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          class={`grammar-input ${addError() ? "invalid" : ""}`}
+          placeholder="Macro body (e.g., dxh)"
+        />
+        <button
+          onClick={handleAdd}
+          class="grammar-submit-btn"
+          title="Add macro"
+          disabled={newName().trim() === "" || Boolean(nameError())}
+        >
+          +
+        </button>
+      </div>
+      <Show when={addError()}>
+        <div class="grammar-message grammar-message-error">{addError()}</div>
+      </Show>
+    </div>
+  );
+};
+
+// Optional L-system mode: ring i's grammar is generation i of axiom + rewrite rules
+const LSystemControls: Component<RingsControlsProps> = (props) => {
+  const [axiom, setAxiom] = createSignal(lSystem().axiom);
+  const [rulesText, setRulesText] = createSignal(formatLSystemRules(lSystem().rules));
+
+  // Pick up loaded saves
+  createEffect(() => {
+    const current = lSystem();
+    setAxiom(current.axiom);
+    setRulesText(formatLSystemRules(current.rules));
+  });
+
+  const errors = createMemo(() => {
+    const parsed = parseLSystemRules(rulesText());
+    return [...parsed.errors, ...validateLSystem(axiom().trim(), parsed.rules)];
+  });
+
+  const apply = (enabled: boolean) => {
+    const p = props.getP();
+    if (!p) return;
+    if (enabled && errors().length > 0) return;
+    updateLSystem(
+      {
+        enabled,
+        axiom: axiom().trim(),
+        rules: parseLSystemRules(rulesText()).rules,
+      },
+      p
+    );
+    props.requestRedraw();
+  };
+
+  return (
+    <div class="macro-controls">
+      <div class="symbol-group-header">
+        L-System
+        <label class="ring-visibility">
+          <input
+            type="checkbox"
+            checked={lSystem().enabled}
+            disabled={!lSystem().enabled && errors().length > 0}
+            onChange={(e) => apply(e.currentTarget.checked)}
+          />
+          Drive rings
+        </label>
+      </div>
+      <div class="macro-row">
+        <span class="macro-name">Axiom</span>
+        <input
+          value={axiom()}
+          onInput={(e) => setAxiom(e.currentTarget.value)}
+          class="grammar-input"
+          placeholder="d"
+        />
+      </div>
+      <div class="macro-row">
+        <span class="macro-name">Rules</span>
+        <textarea
+          value={rulesText()}
+          onInput={(e) => setRulesText(e.currentTarget.value)}
+          class={`grammar-input lsystem-rules ${errors().length > 0 ? "invalid" : ""}`}
+          rows={3}
+          placeholder={"d -> dx\nx -> h"}
+        />
+        <Show when={lSystem().enabled}>
+          <button
+            onClick={() => apply(true)}
+            class="grammar-submit-btn"
+            title="Regenerate rings from the L-system"
+            disabled={errors().length > 0}
+          >
+            ✓
+          </button>
+        </Show>
+      </div>
+      <For each={errors()}>
+        {(error) => (
+          <div class="grammar-message grammar-message-error">✕ {error}</div>
+        )}
+      </For>
+    </div>
+  );
+};
+
+const CellularAutomatonControls: Component<RingsControlsProps> = (props) => {
+  const [ruleChoice, setRuleChoice] = createSignal<string>("30");
+  const [customRule, setCustomRule] = createSignal("01011010");
+  const [seedMode, setSeedMode] = createSignal<SeedRowMode>("single");
+  const [seedPattern, setSeedPattern] = createSignal("0110");
+  const [deadSymbol, setDeadSymbol] = createSignal("x");
+  const [liveSymbol, setLiveSymbol] = createSignal("d");
+
+  // A custom rule is either its Wolfram number or the 8-cell table (111 ... 000)
+  const rule = createMemo(() => {
+    if (ruleChoice() !== "custom") return Number(ruleChoice());
+    const text = customRule().trim();
+    const fromTable = ruleFromTable(text);
+    if (fromTable !== null) return fromTable;
+    const value = Number(text);
+    return /^\d+$/.test(text) && value <= 255 ? value : null;
+  });
+
+  // One cell must be one item: a glyph letter (upper case rotates it) or x, never a macro
+  const isSymbol = (text: string) =>
+    text.length === 1 && (text.toLowerCase() === "x" || isGlyphSymbol(text.toLowerCase()));
+
+  const errors = createMemo(() => {
+    const found: string[] = [];
+    if (rule() === null) found.push("Rule must be 0-255 or an 8-cell table like 01011010");
+    if (seedMode() === "custom" && !/^[01]+$/.test(seedPattern().trim())) {
+      found.push("Seed row must be a string of 0s and 1s");
+    }
+    if (!isSymbol(deadSymbol())) found.push(`"${deadSymbol()}" is not a glyph letter or x`);
+    if (!isSymbol(liveSymbol())) found.push(`"${liveSymbol()}" is not a glyph letter or x`);
+    return found;
+  });
+
+  const generate = () => {
+    const p = props.getP();
+    const currentRule = rule();
+    if (!p || currentRule === null || errors().length > 0) return;
+    generateCellularAutomatonArtwork(
+      {
+        rule: currentRule,
+        seedMode: seedMode(),
+        seedPattern: seedPattern().trim(),
+        seed: randomSeed(),
+        stateSymbols: [deadSymbol(), liveSymbol()],
+      },
+      p
+    );
+    props.requestRedraw();
+  };
+
+  return (
+    <div class="macro-controls">
+      <div class="symbol-group-header">Cellular Automaton</div>
+      <div class="macro-row">
+        <span class="macro-name">Rule</span>
+        <select
+          value={ruleChoice()}
+          onChange={(e) => setRuleChoice(e.currentTarget.value)}
+          class="grammar-input"
+        >
+          <For each={[...PRESET_RULES]}>
+            {(preset) => <option value={String(preset)}>Rule {preset}</option>}
+          </For>
+          <option value="custom">Custom</option>
+        </select>
+        <Show when={ruleChoice() === "custom"}>
+          <input
+            value={customRule()}
+            onInput={(e) => setCustomRule(e.currentTarget.value)}
+            class={`grammar-input ${rule() === null ? "invalid" : ""}`}
+            placeholder="01011010 or 90"
+            title={rule() === null ? undefined : `Rule ${rule()} (${ruleToTable(rule()!)})`}
+          />
+        </Show>
+      </div>
+      <div class="macro-row">
+        <span class="macro-name">Seed</span>
+        <select
+          value={seedMode()}
+          onChange={(e) => setSeedMode(e.currentTarget.value as SeedRowMode)}
+          class="grammar-input"
+        >
+          <option value="single">Single cell</option>
+          <option value="random">Random</option>
+          <option value="custom">Custom</option>
+        </select>
+        <Show when={seedMode() === "custom"}>
+          <input
+            value={seedPattern()}
+            onInput={(e) => setSeedPattern(e.currentTarget.value)}
+            class="grammar-input"
+            placeholder="0110"
+          />
+        </Show>
+      </div>
+      <div class="macro-row">
+        <span class="macro-name">0 →</span>
+        <input
+          value={deadSymbol()}
+          onInput={(e) => setDeadSymbol(e.currentTarget.value)}
+          class="grammar-input macro-name-input"
+          maxLength={1}
+        />
+        <span class="macro-name">1 →</span>
+        <input
+          value={liveSymbol()}
+          onInput={(e) => setLiveSymbol(e.currentTarget.value)}
+          class="grammar-input macro-name-input"
+          maxLength={1}
+        />
+        <button
+          onClick={generate}
+          class="grammar-submit-btn"
+          title="Replace every ring's grammar with successive generations"
+          disabled={errors().length > 0}
+        >
+          ✓
+        </button>
+      </div>
+      <For each={errors()}>
+        {(error) => (
+          <div class="grammar-message grammar-message-error">✕ {error}</div>
+        )}
+      </For>
     </div>
   );
 };
 
 // Main RingsControls component
 export const RingsControls: Component<RingsControlsProps> = (props) => {
-  // Sort rings from outer to inner (largest radius to smallest) - memoized for performance
+  // List rings from outer to inner by position, so a radius override doesn't reshuffle the list
   const sortedRings = createMemo(() => {
     const currentRings = rings();
-    return [...currentRings].sort((a, b) => b.radius - a.radius);
+    return [...currentRings].reverse();
   });
 
   // Force re-render when rings change by accessing the rings signal
@@ -673,21 +1957,69 @@ export const RingsControls: Component<RingsControlsProps> = (props) => {
     rings(); // This ensures the component reacts to ring changes
   });
 
+  // Drag-to-reorder: indices are positions in rings(), inner to outer
+  const [dragFrom, setDragFrom] = createSignal<number | null>(null);
+  const [dropTarget, setDropTarget] = createSignal<number | null>(null);
+
+  const handleDrop = (to: number) => {
+    const from = dragFrom();
+    const p = props.getP();
+    setDragFrom(null);
+    setDropTarget(null);
+    if (from === null || !p) return;
+    moveRing(from, to, p);
+    props.requestRedraw();
+  };
+
   return (
     <div class="rings-controls">
       <div class="rings-header">
         <h3 class="section-title">Ring Controls</h3>
         <GlobalControls getP={props.getP} requestRedraw={props.requestRedraw} />
+        <SpacingControls getP={props.getP} requestRedraw={props.requestRedraw} />
+        <GradientControls getP={props.getP} requestRedraw={props.requestRedraw} />
+        <MacroControls getP={props.getP} requestRedraw={props.requestRedraw} />
+        <LSystemControls getP={props.getP} requestRedraw={props.requestRedraw} />
+        <CellularAutomatonControls getP={props.getP} requestRedraw={props.requestRedraw} />
       </div>
       <div class="rings-grid">
         <For each={sortedRings()}>
-          {(ring) => (
-            <RingControl
-              index={rings().indexOf(ring)}
-              getP={props.getP}
-              requestRedraw={props.requestRedraw}
-            />
-          )}
+          {(ring) => {
+            const index = () => rings().indexOf(ring);
+            return (
+              <div
+                class={`ring-drop-zone ${dragFrom() === index() ? "dragging" : ""} ${
+                  dropTarget() === index() && dragFrom() !== index() ? "drop-target" : ""
+                }`}
+                onDragOver={(e) => {
+                  if (dragFrom() === null) return;
+                  e.preventDefault();
+                  setDropTarget(index());
+                }}
+                onDragLeave={() => {
+                  if (dropTarget() === index()) setDropTarget(null);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(index());
+                }}
+              >
+                <RingControl
+                  index={index()}
+                  getP={props.getP}
+                  requestRedraw={props.requestRedraw}
+                  onDragStart={(e) => {
+                    e.dataTransfer?.setData("text/plain", String(index()));
+                    setDragFrom(index());
+                  }}
+                  onDragEnd={() => {
+                    setDragFrom(null);
+                    setDropTarget(null);
+                  }}
+                />
+              </div>
+            );
+          }}
         </For>
       </div>
     </div>
@@ -696,18 +2028,3 @@ export const RingsControls: Component<RingsControlsProps> = (props) => {
 
 // Export RingControl for use in App.tsx
 export { RingControl };
-
-// Helper function to create default shape options
-function getDefaultShapeOptions(symbol: string) {
-  const options: Record<string, { min: number; max: number; value: number }> = {
-    strokeWidth: { min: 0.1, max: 2.0, value: 0.3 },
-    rotation: { min: 0, max: Math.PI, value: 0 },
-    size: { min: 0.5, max: 2.0, value: 1.0 },
-  };
-  if (symbol === "d") options.length = { min: 1, max: 3.0, value: 2.0 } as any;
-  if (symbol === "h" || symbol === "v")
-    options.curveIntensity = { min: -0.5, max: 1.5, value: 1 } as any;
-  if (symbol === "l")
-    options.upwardLength = { min: 1.5, max: 3.0, value: 2.0 } as any;
-  return options;
-}
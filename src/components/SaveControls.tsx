@@ -20,10 +20,23 @@ import {
   setGlobals,
   setBackgroundColor,
   setColorLock,
+  grammarMacros,
+  setGrammarMacros,
+  customGlyphs,
+  setCustomGlyphs,
+  ringSpacing,
+  setRingSpacing,
+  artworkSeed,
+  setArtworkSeed,
+  paramGradients,
+  setParamGradients,
+  applyRingChanges,
+  lSystem,
+  setLSystem,
   setGuidesVisible as setGuidesVisibleState
 } from '../store/artwork';
 import { SaveSlotGrid } from './SaveSlotGrid';
-import type { Ring } from '../model/ring';
+import { defaultLSystem } from '../core/lsystem';
 
 // Props interface
 interface SaveControlsProps {
@@ -81,17 +94,9 @@ export const SaveControls: Component<SaveControlsProps> = (props) => {
   // Handlers
   const performRerender = () => {
     if (hasChanges()) {
-      // Update all particles' stroke data before redrawing
+      // Apply gradients and update all particles' stroke data before redrawing
       const p = props.getP();
-      if (p) {
-        // Get current rings and update their particles
-        const currentRings = rings();
-        currentRings.forEach((ring: Ring) => {
-          if (!ring.isSolidRing) {
-            ring.updateParticles(p);
-          }
-        });
-      }
+      if (p) applyRingChanges(p);
       clearChanges();
       props.requestRedraw();
     }
@@ -167,6 +172,12 @@ export const SaveControls: Component<SaveControlsProps> = (props) => {
     guidesVisible: guidesVisible(),
     backgroundColor: backgroundColor(),
     colorLock: colorLock(),
+    macros: grammarMacros(),
+    glyphs: customGlyphs(),
+    lSystem: lSystem(),
+    ringSpacing: ringSpacing(),
+    seed: artworkSeed(),
+    gradients: paramGradients(),
     hasChanges: hasChanges()
   });
 
@@ -176,6 +187,12 @@ export const SaveControls: Component<SaveControlsProps> = (props) => {
     if (savedState.palette) setPalette(savedState.palette);
     if (savedState.backgroundColor) setBackgroundColor(savedState.backgroundColor);
     if (savedState.colorLock) setColorLock(savedState.colorLock);
+    setGrammarMacros(savedState.macros ?? {});
+    setCustomGlyphs(savedState.glyphs ?? []);
+    setLSystem(savedState.lSystem ?? defaultLSystem());
+    if (savedState.ringSpacing) setRingSpacing(savedState.ringSpacing);
+    if (savedState.seed !== undefined) setArtworkSeed(savedState.seed);
+    setParamGradients(savedState.gradients ?? []);
     if (savedState.globals) setGlobals(savedState.globals);
     if (savedState.guidesVisible !== undefined) setGuidesVisibleState(savedState.guidesVisible);
     
@@ -185,14 +202,7 @@ export const SaveControls: Component<SaveControlsProps> = (props) => {
     
     // Update particles to use the new palette
     const p = props.getP();
-    if (p && savedState.rings) {
-      const currentRings = rings();
-      currentRings.forEach(ring => {
-        if (!ring.isSolidRing) {
-          ring.updateParticles(p);
-        }
-      });
-    }
+    if (p && savedState.rings) applyRingChanges(p);
     
     // Update local signals
     if (savedState.globals) {
@@ -0,0 +1,48 @@
+import type p5 from 'p5';
+import type { PixelStrokeOptions } from '../pixel-renderer';
+import { drawNibPaths, fillNibTexture } from './nib-path';
+import type { PathPoint } from './nib-path';
+
+export interface ArcDrawOptions {
+  w: number;
+  h: number;
+  offsets: number[];
+  saturations: { startAlpha: number; endAlpha: number }[];
+  colors?: p5.Color[];
+  baseColor: p5.Color;
+  strokeWidth?: number;
+  segments?: number;
+  sweep?: number;
+  size?: number;
+  rotation?: number;
+  progress?: number;
+}
+
+// An open circular arc of `sweep` radians, opening upwards and centred on its own extent
+export function arcPaths(w: number, h: number, size: number, sweep: number, segments: number): PathPoint[][] {
+  const radius = (Math.min(w, h) / 2) * size;
+  const start = Math.PI / 2 - sweep / 2;
+  const centreY = (radius * (1 + Math.cos(sweep / 2))) / 2;
+  const steps = Math.max(segments, Math.ceil((segments * sweep) / Math.PI) * 2);
+  const path: PathPoint[] = [];
+  for (let j = 0; j <= steps; j++) {
+    const angle = start + (j / steps) * sweep;
+    path.push({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) - centreY });
+  }
+  return [path];
+}
+
+export function drawCalligraphyArc(p: p5, options: ArcDrawOptions) {
+  const { w, h, segments = 7, sweep = Math.PI, size = 1.0, rotation = 0 } = options;
+
+  // Apply rotation transformation
+  p.push();
+  p.rotate(rotation);
+  drawNibPaths(p, arcPaths(w, h, size, sweep, segments), options);
+  p.pop();
+}
+
+export function fillArcTexture(buffer: p5.Graphics, options: PixelStrokeOptions, width: number, height: number) {
+  const paths = arcPaths(width, height, options.size ?? 1.0, options.params?.sweep ?? Math.PI, 64);
+  fillNibTexture(buffer, paths, options, width, height);
+}
@@ -0,0 +1,54 @@
+import type p5 from 'p5';
+import type { PixelStrokeOptions } from '../pixel-renderer';
+import { drawNibPaths, fillNibTexture } from './nib-path';
+import type { PathPoint } from './nib-path';
+
+export interface ChevronDrawOptions {
+  w: number;
+  h: number;
+  offsets: number[];
+  saturations: { startAlpha: number; endAlpha: number }[];
+  colors?: p5.Color[];
+  baseColor: p5.Color;
+  strokeWidth?: number;
+  segments?: number;
+  opening?: number;
+  size?: number;
+  rotation?: number;
+  progress?: number;
+}
+
+// Two arms meeting at a point, `opening` radians apart, drawn as one stroke through the tip
+export function chevronPaths(w: number, h: number, size: number, opening: number, segments: number): PathPoint[][] {
+  const arm = (Math.min(w, h) / 2) * size;
+  const half = opening / 2;
+  const tip = { x: (arm * Math.cos(half)) / 2, y: 0 };
+  const upper = { x: tip.x - arm * Math.cos(half), y: -arm * Math.sin(half) };
+  const lower = { x: tip.x - arm * Math.cos(half), y: arm * Math.sin(half) };
+
+  const path: PathPoint[] = [];
+  for (let j = 0; j <= segments; j++) {
+    const t = j / segments;
+    path.push({ x: upper.x + (tip.x - upper.x) * t, y: upper.y + (tip.y - upper.y) * t });
+  }
+  for (let j = 1; j <= segments; j++) {
+    const t = j / segments;
+    path.push({ x: tip.x + (lower.x - tip.x) * t, y: tip.y + (lower.y - tip.y) * t });
+  }
+  return [path];
+}
+
+export function drawCalligraphyChevron(p: p5, options: ChevronDrawOptions) {
+  const { w, h, segments = 7, opening = 1.2, size = 1.0, rotation = 0 } = options;
+
+  // Apply rotation transformation
+  p.push();
+  p.rotate(rotation);
+  drawNibPaths(p, chevronPaths(w, h, size, opening, segments), options);
+  p.pop();
+}
+
+export function fillChevronTexture(buffer: p5.Graphics, options: PixelStrokeOptions, width: number, height: number) {
+  const paths = chevronPaths(width, height, options.size ?? 1.0, options.params?.opening ?? 1.2, 1);
+  fillNibTexture(buffer, paths, options, width, height);
+}
@@ -0,0 +1,48 @@
+import type p5 from 'p5';
+import type { PixelStrokeOptions } from '../pixel-renderer';
+import { drawNibPaths, fillNibTexture } from './nib-path';
+import type { PathPoint } from './nib-path';
+
+export interface CrossDrawOptions {
+  w: number;
+  h: number;
+  offsets: number[];
+  saturations: { startAlpha: number; endAlpha: number }[];
+  colors?: p5.Color[];
+  baseColor: p5.Color;
+  strokeWidth?: number;
+  segments?: number;
+  armRatio?: number;
+  size?: number;
+  rotation?: number;
+  progress?: number;
+}
+
+// Horizontal bar, then a vertical bar through its middle `armRatio` times as long
+export function crossPaths(w: number, h: number, size: number, armRatio: number, segments: number): PathPoint[][] {
+  const halfBar = (w / 2) * size;
+  const halfStem = (h / 2) * size * armRatio;
+  const bar: PathPoint[] = [];
+  const stem: PathPoint[] = [];
+  for (let j = 0; j <= segments; j++) {
+    const t = j / segments;
+    bar.push({ x: -halfBar + 2 * halfBar * t, y: 0 });
+    stem.push({ x: 0, y: -halfStem + 2 * halfStem * t });
+  }
+  return [bar, stem];
+}
+
+export function drawCalligraphyCross(p: p5, options: CrossDrawOptions) {
+  const { w, h, segments = 7, armRatio = 1.0, size = 1.0, rotation = 0 } = options;
+
+  // Apply rotation transformation
+  p.push();
+  p.rotate(rotation);
+  drawNibPaths(p, crossPaths(w, h, size, armRatio, segments), options);
+  p.pop();
+}
+
+export function fillCrossTexture(buffer: p5.Graphics, options: PixelStrokeOptions, width: number, height: number) {
+  const paths = crossPaths(width, height, options.size ?? 1.0, options.params?.armRatio ?? 1.0, 1);
+  fillNibTexture(buffer, paths, options, width, height);
+}
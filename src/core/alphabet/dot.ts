@@ -0,0 +1,47 @@
+import type p5 from 'p5';
+import type { PixelStrokeOptions } from '../pixel-renderer';
+import { drawNibPaths, fillNibTexture } from './nib-path';
+import type { PathPoint } from './nib-path';
+
+export interface DotDrawOptions {
+  w: number;
+  h: number;
+  offsets: number[];
+  saturations: { startAlpha: number; endAlpha: number }[];
+  colors?: p5.Color[];
+  baseColor: p5.Color;
+  strokeWidth?: number;
+  segments?: number;
+  roundness?: number;
+  size?: number;
+  rotation?: number;
+  progress?: number;
+}
+
+// A small closed seed: an ellipse half the slot wide, `roundness` sets its height to width ratio
+export function dotPaths(w: number, h: number, size: number, roundness: number, segments: number): PathPoint[][] {
+  const rx = (Math.min(w, h) / 4) * size;
+  const ry = rx * roundness;
+  const steps = Math.max(12, segments * 3);
+  const path: PathPoint[] = [];
+  for (let j = 0; j <= steps; j++) {
+    const angle = (j / steps) * Math.PI * 2;
+    path.push({ x: rx * Math.cos(angle), y: ry * Math.sin(angle) });
+  }
+  return [path];
+}
+
+export function drawCalligraphyDot(p: p5, options: DotDrawOptions) {
+  const { w, h, segments = 7, roundness = 0.6, size = 1.0, rotation = 0 } = options;
+
+  // Apply rotation transformation
+  p.push();
+  p.rotate(rotation);
+  drawNibPaths(p, dotPaths(w, h, size, roundness, segments), options);
+  p.pop();
+}
+
+export function fillDotTexture(buffer: p5.Graphics, options: PixelStrokeOptions, width: number, height: number) {
+  const paths = dotPaths(width, height, options.size ?? 1.0, options.params?.roundness ?? 0.6, 32);
+  fillNibTexture(buffer, paths, options, width, height);
+}
@@ -0,0 +1,109 @@
+import type p5 from 'p5';
+import type { PixelStrokeOptions } from '../pixel-renderer';
+
+/**
+ * Shared drawing for glyphs described as centre-line polylines.
+ *
+ * A broad nib is held at a fixed angle, so each of its lines is the same path
+ * shifted along the nib (y) by that line's offset. Alpha fades from start to
+ * end along the whole glyph, and progress reveals it in drawing order, even
+ * when the glyph is made of more than one stroke.
+ */
+
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+export interface NibStrokeOptions {
+  offsets: number[];
+  saturations: { startAlpha: number; endAlpha: number }[];
+  colors?: p5.Color[];
+  baseColor: p5.Color;
+  strokeWidth?: number;
+  progress?: number;
+}
+
+// Length of each segment, across all strokes in order
+function segmentLengths(paths: PathPoint[][]): { lengths: number[][]; total: number } {
+  let total = 0;
+  const lengths = paths.map((path) =>
+    path.slice(1).map((point, k) => {
+      const length = Math.hypot(point.x - path[k].x, point.y - path[k].y);
+      total += length;
+      return length;
+    }),
+  );
+  return { lengths, total };
+}
+
+export function drawNibPaths(p: p5, paths: PathPoint[][], options: NibStrokeOptions) {
+  const { offsets, saturations, colors, baseColor, strokeWidth = 0.25, progress = 1.0 } = options;
+  const { lengths, total } = segmentLengths(paths);
+  if (total === 0) return;
+
+  p.strokeWeight(strokeWidth);
+  p.noFill();
+
+  for (let i = 0; i < offsets.length; i++) {
+    const offset = offsets[i];
+    const { startAlpha, endAlpha } = saturations[i];
+    const strokeColor = colors ? colors[i] : baseColor;
+
+    // Properly read RGB values regardless of current color mode
+    p.colorMode(p.RGB, 255);
+    const r = Math.round(p.red(strokeColor));
+    const g = Math.round(p.green(strokeColor));
+    const b = Math.round(p.blue(strokeColor));
+    p.colorMode(p.HSB, 360, 100, 100); // Restore HSB mode
+
+    let travelled = 0;
+    paths.forEach((path, s) => {
+      for (let k = 0; k < path.length - 1; k++) {
+        const t = travelled / total;
+        travelled += lengths[s][k];
+        if (t > progress) return;
+        p.stroke(r, g, b, p.lerp(startAlpha, endAlpha, t));
+        p.line(path[k].x, path[k].y + offset, path[k + 1].x, path[k + 1].y + offset);
+      }
+    });
+  }
+}
+
+/**
+ * Pixel-renderer texture for a path glyph: the paths are in texture pixels,
+ * centred on the texture, one copy per nib line like the other textures
+ */
+export function fillNibTexture(buffer: p5.Graphics, paths: PathPoint[][], options: PixelStrokeOptions, width: number, height: number) {
+  const { strokeCount, strokeWidth, colorBleed, baseColor } = options;
+
+  buffer.colorMode(buffer.RGB, 255);
+  const r = buffer.red(baseColor);
+  const g = buffer.green(baseColor);
+  const b = buffer.blue(baseColor);
+
+  buffer.push();
+  buffer.translate(width / 2, height / 2);
+  buffer.noFill();
+  buffer.strokeWeight(Math.max(1, strokeWidth));
+
+  for (let stroke = 0; stroke < strokeCount; stroke++) {
+    const strokeOffset = (stroke - (strokeCount - 1) / 2) * strokeWidth;
+
+    const colorVariation = (stroke / strokeCount) * colorBleed * 50;
+    buffer.stroke(
+      Math.max(0, Math.min(255, r + colorVariation)),
+      Math.max(0, Math.min(255, g + colorVariation)),
+      Math.max(0, Math.min(255, b + colorVariation)),
+    );
+
+    for (const path of paths) {
+      for (let k = 0; k < path.length - 1; k++) {
+        buffer.line(path[k].x, path[k].y + strokeOffset, path[k + 1].x, path[k + 1].y + strokeOffset);
+      }
+    }
+  }
+
+  buffer.pop();
+  buffer.colorMode(buffer.HSB, 360, 100, 100);
+}
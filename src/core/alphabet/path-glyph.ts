@@ -0,0 +1,45 @@
+import type p5 from 'p5';
+import type { PixelStrokeOptions } from '../pixel-renderer';
+import { drawNibPaths, fillNibTexture } from './nib-path';
+import type { PathPoint } from './nib-path';
+
+export interface PathGlyphDrawOptions {
+  w: number;
+  h: number;
+  offsets: number[];
+  saturations: { startAlpha: number; endAlpha: number }[];
+  colors?: p5.Color[];
+  baseColor: p5.Color;
+  strokeWidth?: number;
+  size?: number;
+  rotation?: number;
+  progress?: number;
+}
+
+// Normalized paths (larger side 1, centred) scaled to fill the slot
+export function scalePaths(paths: PathPoint[][], w: number, h: number, size: number): PathPoint[][] {
+  const scale = Math.min(w, h) * size;
+  return paths.map((path) => path.map((point) => ({ x: point.x * scale, y: point.y * scale })));
+}
+
+/**
+ * Draw and texture functions for a glyph defined by data rather than code,
+ * e.g. sampled from SVG path data
+ */
+export function createPathGlyphDrawing(paths: PathPoint[][]) {
+  const draw = (p: p5, options: PathGlyphDrawOptions) => {
+    const { w, h, size = 1.0, rotation = 0 } = options;
+
+    // Apply rotation transformation
+    p.push();
+    p.rotate(rotation);
+    drawNibPaths(p, scalePaths(paths, w, h, size), options);
+    p.pop();
+  };
+
+  const pixelTexture = (buffer: p5.Graphics, options: PixelStrokeOptions, width: number, height: number) => {
+    fillNibTexture(buffer, scalePaths(paths, width, height, options.size ?? 1.0), options, width, height);
+  };
+
+  return { draw, pixelTexture };
+}
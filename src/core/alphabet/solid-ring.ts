@@ -9,10 +9,14 @@ export interface SolidRingDrawOptions {
   ringOpacity?: number;
   progress?: number;
   strokeWidth?: number;
+  arcStart?: number; // radians
+  arcSweep?: number; // radians; a full turn or more draws a closed ring
+  outline?: { x: number; y: number }[]; // non-circular ring path at radius 1, traced instead of the circle
+  closed?: boolean;
 }
 
 export function drawSolidRing(p: p5, options: SolidRingDrawOptions) {
-  const { radius, width, saturations, colors, baseColor, ringOpacity = 100, progress = 1.0, strokeWidth = 0.1 } = options;
+  const { radius, width, saturations, colors, baseColor, ringOpacity = 100, progress = 1.0, strokeWidth = 0.1, arcStart = 0, arcSweep = Math.PI * 2, outline, closed = true } = options;
   p.noFill();
   const numStrokes = saturations.length;
   const strokesToDraw = Math.floor(numStrokes * progress);
@@ -29,6 +33,12 @@ export function drawSolidRing(p: p5, options: SolidRingDrawOptions) {
     
     p.stroke(red, green, blue, ringOpacity);
     p.strokeWeight(strokeWidth);
-    p.ellipse(0, 0, r * 2, r * 2);
+    if (outline) {
+      p.beginShape();
+      for (const point of outline) p.vertex(point.x * r, point.y * r);
+      if (closed) p.endShape(p.CLOSE);
+      else p.endShape();
+    } else if (arcSweep >= Math.PI * 2) p.ellipse(0, 0, r * 2, r * 2);
+    else p.arc(0, 0, r * 2, r * 2, arcStart, arcStart + arcSweep, p.OPEN);
   }
 }
@@ -0,0 +1,47 @@
+import type p5 from 'p5';
+import type { PixelStrokeOptions } from '../pixel-renderer';
+import { drawNibPaths, fillNibTexture } from './nib-path';
+import type { PathPoint } from './nib-path';
+
+export interface SpiralDrawOptions {
+  w: number;
+  h: number;
+  offsets: number[];
+  saturations: { startAlpha: number; endAlpha: number }[];
+  colors?: p5.Color[];
+  baseColor: p5.Color;
+  strokeWidth?: number;
+  segments?: number;
+  turns?: number;
+  size?: number;
+  rotation?: number;
+  progress?: number;
+}
+
+// Archimedean spiral from the centre outwards; more turns get more points
+export function spiralPaths(w: number, h: number, size: number, turns: number, segments: number): PathPoint[][] {
+  const radius = (Math.min(w, h) / 2) * size;
+  const steps = Math.max(segments, Math.ceil(segments * turns * 3));
+  const path: PathPoint[] = [];
+  for (let j = 0; j <= steps; j++) {
+    const t = j / steps;
+    const angle = t * turns * Math.PI * 2;
+    path.push({ x: radius * t * Math.cos(angle), y: radius * t * Math.sin(angle) });
+  }
+  return [path];
+}
+
+export function drawCalligraphySpiral(p: p5, options: SpiralDrawOptions) {
+  const { w, h, segments = 7, turns = 1.5, size = 1.0, rotation = 0 } = options;
+
+  // Apply rotation transformation
+  p.push();
+  p.rotate(rotation);
+  drawNibPaths(p, spiralPaths(w, h, size, turns, segments), options);
+  p.pop();
+}
+
+export function fillSpiralTexture(buffer: p5.Graphics, options: PixelStrokeOptions, width: number, height: number) {
+  const paths = spiralPaths(width, height, options.size ?? 1.0, options.params?.turns ?? 1.5, 64);
+  fillNibTexture(buffer, paths, options, width, height);
+}
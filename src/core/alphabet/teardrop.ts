@@ -0,0 +1,47 @@
+import type p5 from 'p5';
+import type { PixelStrokeOptions } from '../pixel-renderer';
+import { drawNibPaths, fillNibTexture } from './nib-path';
+import type { PathPoint } from './nib-path';
+
+export interface TeardropDrawOptions {
+  w: number;
+  h: number;
+  offsets: number[];
+  saturations: { startAlpha: number; endAlpha: number }[];
+  colors?: p5.Color[];
+  baseColor: p5.Color;
+  strokeWidth?: number;
+  segments?: number;
+  bulge?: number;
+  size?: number;
+  rotation?: number;
+  progress?: number;
+}
+
+// Closed drop with its point at +x: x = cos t, y = sin t * sin(t / 2), scaled by `bulge` across
+export function teardropPaths(w: number, h: number, size: number, bulge: number, segments: number): PathPoint[][] {
+  const rx = (w / 2) * size;
+  const ry = (h / 2) * size * bulge;
+  const steps = Math.max(12, segments * 3);
+  const path: PathPoint[] = [];
+  for (let j = 0; j <= steps; j++) {
+    const t = (j / steps) * Math.PI * 2;
+    path.push({ x: rx * Math.cos(t), y: ry * Math.sin(t) * Math.sin(t / 2) });
+  }
+  return [path];
+}
+
+export function drawCalligraphyTeardrop(p: p5, options: TeardropDrawOptions) {
+  const { w, h, segments = 7, bulge = 0.7, size = 1.0, rotation = 0 } = options;
+
+  // Apply rotation transformation
+  p.push();
+  p.rotate(rotation);
+  drawNibPaths(p, teardropPaths(w, h, size, bulge, segments), options);
+  p.pop();
+}
+
+export function fillTeardropTexture(buffer: p5.Graphics, options: PixelStrokeOptions, width: number, height: number) {
+  const paths = teardropPaths(width, height, options.size ?? 1.0, options.params?.bulge ?? 0.7, 32);
+  fillNibTexture(buffer, paths, options, width, height);
+}
@@ -0,0 +1,78 @@
+import { createRandom } from './random';
+
+/**
+ * Elementary (1-D, two-state) cellular automata for filling rings.
+ *
+ * Each ring's slots form one row of cells. The innermost ring gets the seed
+ * row and every ring outward is the next generation under the rule. Rows wrap
+ * around, since a ring has no ends.
+ */
+
+export type SeedRowMode = 'single' | 'random' | 'custom';
+
+export interface CellularAutomatonOptions {
+  rule: number; // Wolfram rule number 0..255; bit k is the next state for neighbourhood k (left*4 + centre*2 + right)
+  seedMode: SeedRowMode;
+  seedPattern: string; // 0/1 cells, tiled around the first ring when seedMode is 'custom'
+  seed: number; // drives the 'random' seed row
+  stateSymbols: [string, string]; // grammar symbol for dead and live cells
+}
+
+export const PRESET_RULES = [30, 90, 110] as const;
+
+/**
+ * Rule number from an 8-cell rule table written for neighbourhoods 111, 110, ..., 000
+ */
+export function ruleFromTable(table: string): number | null {
+  if (!/^[01]{8}$/.test(table)) return null;
+  return parseInt(table, 2);
+}
+
+export function ruleToTable(rule: number): string {
+  return (rule & 0xff).toString(2).padStart(8, '0');
+}
+
+export function stepRow(row: number[], rule: number): number[] {
+  const n = row.length;
+  return row.map((centre, i) => {
+    const left = row[(i - 1 + n) % n];
+    const right = row[(i + 1) % n];
+    return (rule >> ((left << 2) | (centre << 1) | right)) & 1;
+  });
+}
+
+// Nearest-cell resampling, for rings with a different number of slots than the previous one
+function resampleRow(row: number[], length: number): number[] {
+  if (row.length === length) return row;
+  return Array.from({ length }, (_, j) => row[Math.floor((j * row.length) / length)]);
+}
+
+function seedRow(options: CellularAutomatonOptions, length: number): number[] {
+  switch (options.seedMode) {
+    case 'random': {
+      const random = createRandom(options.seed);
+      return Array.from({ length }, () => (random() < 0.5 ? 1 : 0));
+    }
+    case 'custom': {
+      const cells = options.seedPattern.replace(/[^01]/g, '');
+      if (cells === '') return Array.from({ length }, () => 0);
+      return Array.from({ length }, (_, i) => Number(cells[i % cells.length]));
+    }
+    case 'single':
+    default:
+      return Array.from({ length }, (_, i) => (i === Math.floor(length / 2) ? 1 : 0));
+  }
+}
+
+/**
+ * One grammar string per ring, innermost first, each exactly as long as the ring's divisions
+ */
+export function generateCellularAutomaton(divisionsPerRing: number[], options: CellularAutomatonOptions): string[] {
+  const grammars: string[] = [];
+  let row: number[] = [];
+  divisionsPerRing.forEach((divisions, i) => {
+    row = i === 0 ? seedRow(options, divisions) : stepRow(resampleRow(row, divisions), options.rule);
+    grammars.push(row.map((cell) => options.stateSymbols[cell]).join(''));
+  });
+  return grammars;
+}
@@ -1,6 +1,29 @@
+import type { RingStrokeSetting } from '../model/types';
+
 export const DIVISIONS = 64;
 export const MIN_DIVISIONS = 32;
 
+// Bounds for a ring's own division count
+export const DIVISIONS_RANGE = { min: 3, max: 360 };
+
+// Radii and sizes are in wheel units, 1 being the edge of the wheel (half the canvas's
+// shorter side). Geometry is built at this radius in pixels and the sketch scales it
+// to the actual canvas when drawing, so stroke widths keep their proportions too.
+export const WHEEL_DRAW_RADIUS = 400;
+
+// Global stroke settings that can also be set per ring
+export const RING_STROKE_SETTINGS: RingStrokeSetting[] = ['strokeCount', 'colorBleed', 'globalStrokeWidth'];
+
+// Bounds of the global stroke sliders, which per-ring values and gradients keep to too
+export const RING_STROKE_SETTING_RANGES: Record<RingStrokeSetting, { min: number; max: number; step: number }> = {
+  strokeCount: { min: 6, max: 50, step: 1 },
+  colorBleed: { min: 0, max: 1, step: 0.01 },
+  globalStrokeWidth: { min: -5, max: 35, step: 0.1 },
+};
+
+// Bounds for the number of rings in an artwork
+export const RING_COUNT_RANGE = { min: 1, max: 24 };
+
 export const defaultGrammars: string[] = [
   'dx', 'd', 'dv', '-', 'l', 'h', 'lxdx', 'dV', 'L', 'l', 'v', 'vx', 'Vx', 'Hxdx', 'Lx'
 ];
@@ -0,0 +1,74 @@
+import { getGlyph, isValidGlyphSymbol, registerGlyph, unregisterGlyph } from './glyph-registry';
+import type { GrammarMacros } from './macros';
+import type { GlyphNode } from './glyph-nodes';
+import { createPathGlyphDrawing } from './alphabet/path-glyph';
+import { sampleSvgPath } from './svg-path';
+
+/**
+ * User glyphs defined by SVG path data.
+ *
+ * They live in the artwork document rather than in code, so loading an
+ * artwork registers its glyphs before its rings are parsed. Built-in glyphs
+ * cannot be replaced.
+ */
+
+export interface CustomGlyph {
+  symbol: string;
+  name: string;
+  path: string; // SVG path data, the `d` attribute
+  nodes?: GlyphNode[]; // anchors and handles, for glyphs drawn in the glyph editor
+  closed?: boolean;
+}
+
+// Symbols registered from the current artwork, so they can be swapped on load
+const customSymbols = new Set<string>();
+
+export function isCustomGlyph(symbol: string): boolean {
+  return customSymbols.has(symbol);
+}
+
+/**
+ * Why a glyph can't be added under its symbol, or null if it can.
+ * `editing` is the symbol of the glyph being replaced, if any.
+ */
+export function validateCustomGlyph(glyph: CustomGlyph, macros: GrammarMacros, editing?: string): string | null {
+  if (!isValidGlyphSymbol(glyph.symbol)) return 'Letter must be a single lowercase letter other than x or e';
+  if (getGlyph(glyph.symbol) && !customSymbols.has(glyph.symbol)) {
+    return `'${glyph.symbol}' is a built-in glyph`;
+  }
+  if (glyph.symbol !== editing && customSymbols.has(glyph.symbol)) {
+    return `'${glyph.symbol}' is already a custom glyph`;
+  }
+  const upper = glyph.symbol.toUpperCase();
+  if (Object.prototype.hasOwnProperty.call(macros, upper)) {
+    return `'${upper}' is used by a macro, and uppercase glyph letters are their 180° turn`;
+  }
+  return sampleSvgPath(glyph.path).error;
+}
+
+function registerCustomGlyph(glyph: CustomGlyph) {
+  const { paths, error } = sampleSvgPath(glyph.path);
+  if (error) return;
+  const { draw, pixelTexture } = createPathGlyphDrawing(paths);
+  registerGlyph({
+    symbol: glyph.symbol,
+    name: glyph.name || `Custom ${glyph.symbol.toUpperCase()}`,
+    draw,
+    defaultOptions: {},
+    pixelTexture,
+  });
+  customSymbols.add(glyph.symbol);
+}
+
+/**
+ * Make the registered custom glyphs exactly `glyphs`, leaving built-ins alone
+ */
+export function replaceCustomGlyphs(glyphs: CustomGlyph[]) {
+  customSymbols.forEach((symbol) => unregisterGlyph(symbol));
+  customSymbols.clear();
+  glyphs.forEach((glyph) => {
+    // A saved glyph can't shadow a built-in, even if a later version adds one under its letter
+    if (!isValidGlyphSymbol(glyph.symbol) || getGlyph(glyph.symbol)) return;
+    registerCustomGlyph(glyph);
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * Anchor and handle model behind the visual glyph editor.
+ *
+ * A glyph is one cubic bezier path through its anchors; each anchor has an
+ * incoming and an outgoing control handle. Coordinates are in the editor's
+ * 0..100 box and only the shape matters, since sampleSvgPath normalizes it.
+ */
+
+export interface GlyphNode {
+  x: number;
+  y: number;
+  inX: number; // handle controlling the curve arriving at this anchor
+  inY: number;
+  outX: number; // handle controlling the curve leaving it
+  outY: number;
+}
+
+export type GlyphNodePart = 'anchor' | 'in' | 'out';
+
+export const GLYPH_EDITOR_SIZE = 100;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// A new anchor with level handles either side of it
+export function createGlyphNode(x: number, y: number, handleLength = 12): GlyphNode {
+  return { x, y, inX: x - handleLength, inY: y, outX: x + handleLength, outY: y };
+}
+
+// A gentle S-curve to start from
+export function defaultGlyphNodes(): GlyphNode[] {
+  return [
+    { x: 20, y: 65, inX: 10, inY: 75, outX: 30, outY: 30 },
+    { x: 50, y: 50, inX: 40, inY: 70, outX: 60, outY: 30 },
+    { x: 80, y: 35, inX: 70, inY: 70, outX: 90, outY: 25 },
+  ];
+}
+
+/**
+ * Move one part of a node; moving the anchor carries both handles with it
+ */
+export function moveGlyphNode(node: GlyphNode, part: GlyphNodePart, x: number, y: number): GlyphNode {
+  const clamp = (value: number) => Math.max(0, Math.min(GLYPH_EDITOR_SIZE, value));
+  const cx = clamp(x);
+  const cy = clamp(y);
+  if (part === 'in') return { ...node, inX: cx, inY: cy };
+  if (part === 'out') return { ...node, outX: cx, outY: cy };
+  const dx = cx - node.x;
+  const dy = cy - node.y;
+  // Handles stay inside the box too, so they can always be grabbed again
+  return {
+    x: cx,
+    y: cy,
+    inX: clamp(node.inX + dx),
+    inY: clamp(node.inY + dy),
+    outX: clamp(node.outX + dx),
+    outY: clamp(node.outY + dy),
+  };
+}
+
+/**
+ * SVG path data for the nodes, so editor glyphs go through the same
+ * sampling as pasted ones
+ */
+export function glyphNodesToSvgPath(nodes: GlyphNode[], closed: boolean): string {
+  if (nodes.length === 0) return '';
+  const pt = (x: number, y: number) => `${round(x)} ${round(y)}`;
+  const segment = (from: GlyphNode, to: GlyphNode) => `C ${pt(from.outX, from.outY)} ${pt(to.inX, to.inY)} ${pt(to.x, to.y)}`;
+
+  const parts = [`M ${pt(nodes[0].x, nodes[0].y)}`];
+  for (let i = 1; i < nodes.length; i++) parts.push(segment(nodes[i - 1], nodes[i]));
+  if (closed && nodes.length > 1) {
+    parts.push(segment(nodes[nodes.length - 1], nodes[0]));
+    parts.push('Z');
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,179 @@
+import type p5 from 'p5';
+import { createSignal } from 'solid-js';
+import type { DrawShapeFn, RangeParamMap } from '../model/types';
+import type { PixelStrokeOptions } from './pixel-renderer';
+import { drawCalligraphyDiamond } from './alphabet/diamond';
+import { drawCalligraphyHorizontalHook } from './alphabet/h-hook';
+import { drawCalligraphyHook } from './alphabet/v-hook';
+import { drawCalligraphyLStroke } from './alphabet/l-stroke';
+import { drawCalligraphySpiral, fillSpiralTexture } from './alphabet/spiral';
+import { drawCalligraphyDot, fillDotTexture } from './alphabet/dot';
+import { drawCalligraphyArc, fillArcTexture } from './alphabet/arc';
+import { drawCalligraphyChevron, fillChevronTexture } from './alphabet/chevron';
+import { drawCalligraphyTeardrop, fillTeardropTexture } from './alphabet/teardrop';
+import { drawCalligraphyCross, fillCrossTexture } from './alphabet/cross';
+
+/**
+ * Glyph registry: every symbol letter the grammar understands.
+ *
+ * The parser, the ring controls, the grammar reference and color assignment
+ * all look glyphs up here, so a new glyph only needs one registerGlyph call.
+ * The uppercase form of a registered letter is its 180° turn.
+ */
+
+// Fills a stroke texture for the pixel renderer, drawn into `buffer` of the given size
+export type PixelTextureFn = (buffer: p5.Graphics, options: PixelStrokeOptions, width: number, height: number) => void;
+
+export interface GlyphDefinition {
+  symbol: string; // a single lowercase letter
+  name: string;
+  draw: DrawShapeFn;
+  defaultOptions: RangeParamMap; // copied into each ring that uses the glyph
+  pixelTexture?: PixelTextureFn;
+}
+
+// 'x' is the empty slot, and 'e' would turn 'E(' into a rotated glyph instead of a
+// Euclidean rhythm; solid rings ('-') are a ring mode rather than a glyph
+const RESERVED_SYMBOLS = 'xe';
+
+const glyphs = new Map<string, GlyphDefinition>();
+
+// Bumped on every change so components listing glyphs re-render
+const [glyphVersion, setGlyphVersion] = createSignal(0);
+
+// Parameters every glyph has; definitions add their own on top
+export const BASE_GLYPH_OPTIONS: RangeParamMap = {
+  strokeWidth: { min: 0.1, max: 2.0, value: 0.3 },
+  rotation: { min: 0, max: Math.PI, value: 0 },
+  size: { min: 0.5, max: 2.0, value: 1.0 },
+};
+
+export function isValidGlyphSymbol(symbol: string): boolean {
+  return /^[a-z]$/.test(symbol) && !RESERVED_SYMBOLS.includes(symbol);
+}
+
+/**
+ * Add a glyph, or replace the one already registered under its symbol
+ */
+export function registerGlyph(glyph: GlyphDefinition) {
+  if (!isValidGlyphSymbol(glyph.symbol)) {
+    throw new Error(`Glyph symbol must be a single lowercase letter other than ${RESERVED_SYMBOLS.split('').join(' or ')}, got '${glyph.symbol}'`);
+  }
+  glyphs.set(glyph.symbol, glyph);
+  setGlyphVersion((v) => v + 1);
+}
+
+export function unregisterGlyph(symbol: string): boolean {
+  const removed = glyphs.delete(symbol);
+  if (removed) setGlyphVersion((v) => v + 1);
+  return removed;
+}
+
+export function getGlyph(symbol: string): GlyphDefinition | undefined {
+  glyphVersion();
+  return glyphs.get(symbol);
+}
+
+export function isGlyphSymbol(symbol: string): boolean {
+  return getGlyph(symbol) !== undefined;
+}
+
+/**
+ * All registered glyphs in registration order; reactive inside components
+ */
+export function listGlyphs(): GlyphDefinition[] {
+  glyphVersion();
+  return Array.from(glyphs.values());
+}
+
+/**
+ * A fresh copy of a glyph's default parameters, safe for a ring to mutate
+ */
+export function getDefaultGlyphOptions(symbol: string): RangeParamMap {
+  const defaults = { ...BASE_GLYPH_OPTIONS, ...(getGlyph(symbol)?.defaultOptions ?? {}) };
+  const copy: RangeParamMap = {};
+  for (const [key, param] of Object.entries(defaults)) copy[key] = { ...param };
+  return copy;
+}
+
+export function getGlyphName(symbol: string): string {
+  if (symbol === '-' || symbol === 'solid') return 'Solid Ring';
+  if (symbol === 'x') return 'Empty Space';
+  return getGlyph(symbol)?.name ?? symbol;
+}
+
+registerGlyph({
+  symbol: 'd',
+  name: 'Calligraphy Diamond',
+  draw: drawCalligraphyDiamond,
+  defaultOptions: { length: { min: 1, max: 3.0, value: 2.0 } },
+});
+
+registerGlyph({
+  symbol: 'h',
+  name: 'Calligraphy Horizontal Hook',
+  draw: drawCalligraphyHorizontalHook,
+  defaultOptions: { curveIntensity: { min: -0.5, max: 1.5, value: 1 } },
+});
+
+registerGlyph({
+  symbol: 'l',
+  name: 'Calligraphy L-Stroke',
+  draw: drawCalligraphyLStroke,
+  defaultOptions: { upwardLength: { min: 1.5, max: 3.0, value: 2.0 } },
+});
+
+registerGlyph({
+  symbol: 'v',
+  name: 'Calligraphy Hook',
+  draw: drawCalligraphyHook,
+  defaultOptions: { curveIntensity: { min: -0.5, max: 1.5, value: 1 } },
+});
+
+registerGlyph({
+  symbol: 's',
+  name: 'Calligraphy Spiral',
+  draw: drawCalligraphySpiral,
+  defaultOptions: { turns: { min: 0.5, max: 3.0, value: 1.5 } },
+  pixelTexture: fillSpiralTexture,
+});
+
+registerGlyph({
+  symbol: 'o',
+  name: 'Calligraphy Dot',
+  draw: drawCalligraphyDot,
+  defaultOptions: { roundness: { min: 0.3, max: 1.0, value: 0.6 } },
+  pixelTexture: fillDotTexture,
+});
+
+registerGlyph({
+  symbol: 'u',
+  name: 'Calligraphy Open Arc',
+  draw: drawCalligraphyArc,
+  defaultOptions: { sweep: { min: Math.PI / 4, max: Math.PI * 1.75, value: Math.PI } },
+  pixelTexture: fillArcTexture,
+});
+
+registerGlyph({
+  symbol: 'c',
+  name: 'Calligraphy Chevron',
+  draw: drawCalligraphyChevron,
+  defaultOptions: { opening: { min: 0.3, max: 2.5, value: 1.2 } },
+  pixelTexture: fillChevronTexture,
+});
+
+registerGlyph({
+  symbol: 't',
+  name: 'Calligraphy Teardrop',
+  draw: drawCalligraphyTeardrop,
+  defaultOptions: { bulge: { min: 0.3, max: 1.2, value: 0.7 } },
+  pixelTexture: fillTeardropTexture,
+});
+
+registerGlyph({
+  symbol: 'k',
+  name: 'Calligraphy Cross',
+  draw: drawCalligraphyCross,
+  defaultOptions: { armRatio: { min: 0.3, max: 1.5, value: 1.0 } },
+  pixelTexture: fillCrossTexture,
+});
@@ -1,60 +1,478 @@
-import type p5 from 'p5';
-import { drawCalligraphyDiamond } from './alphabet/diamond';
-import { drawCalligraphyHorizontalHook } from './alphabet/h-hook';
-import { drawCalligraphyHook } from './alphabet/v-hook';
-import { drawCalligraphyLStroke } from './alphabet/l-stroke';
-import { drawSolidRing } from './alphabet/solid-ring';
-
-export type SymbolKey = 'd' | 'h' | 'l' | 'v' | 'x' | '-' | 'solid';
-
-export interface GrammarItem {
-  char: 'd' | 'h' | 'l' | 'v' | 'x';
-  rotated: boolean;
-}
-
-export const strokeNames: Record<string, string> = {
-  d: 'Calligraphy Diamond',
-  h: 'Calligraphy Horizontal Hook',
-  l: 'Calligraphy L-Stroke',
-  v: 'Calligraphy Hook',
-  '-': 'Solid Ring',
-  solid: 'Solid Ring',
-};
-
-export const alphabet = {
-  d: drawCalligraphyDiamond,
-  h: drawCalligraphyHorizontalHook,
-  l: drawCalligraphyLStroke,
-  v: drawCalligraphyHook,
-  solid: drawSolidRing,
-};
-
-export function parseGrammar(grammarString: string): GrammarItem[] {
-  const sequence: GrammarItem[] = [];
-  let i = 0;
-  while (i < grammarString.length) {
-    const raw = grammarString[i];
-    let numStr = '';
-    let j = i + 1;
-    while (j < grammarString.length && !Number.isNaN(Number(grammarString[j])) && grammarString[j] !== ' ') {
-      numStr += grammarString[j];
-      j++;
+import { isGlyphSymbol } from './glyph-registry';
+import { createRandom } from './random';
+import type { RandomFn } from './random';
+import { expandMacros } from './macros';
+import type { GrammarMacros } from './macros';
+
+// Orientation modifiers written after a symbol: d' d'' d''' (quarter turns), d<45> (degrees), d~ (mirror), d^ (flip)
+export interface GlyphOrientation {
+  turn?: number; // degrees, clockwise, on top of the glyph's position on the ring
+  mirror?: boolean; // reflected left-right
+  flip?: boolean; // reflected top-bottom
+}
+
+export interface GrammarItem extends GlyphOrientation {
+  char: string; // a registered glyph symbol, or 'x' for an empty slot
+  rotated: boolean; // uppercase symbol, turned 180°
+  overrides?: Record<string, number>; // per-instance shape option values, e.g. d{size=1.6}
+}
+
+export type GrammarDiagnosticCode =
+  | 'unknown-symbol'
+  | 'dangling-repeat'
+  | 'zero-repeat'
+  | 'unclosed-group'
+  | 'unmatched-paren'
+  | 'invalid-override'
+  | 'invalid-choice'
+  | 'invalid-euclid'
+  | 'invalid-rotation'
+  | 'macro-error'
+  | 'expansion-limit'
+  | 'pattern-too-long';
+
+export interface GrammarDiagnostic {
+  code: GrammarDiagnosticCode;
+  severity: 'error' | 'warning';
+  message: string;
+  start: number; // character offset into the grammar string
+  end: number; // exclusive
+}
+
+export interface GrammarParseResult {
+  items: GrammarItem[];
+  errors: GrammarDiagnostic[];
+  warnings: GrammarDiagnostic[];
+  stochastic: boolean; // true when the grammar contains [..] choices, so the seed matters
+}
+
+export interface GrammarParseOptions {
+  divisions?: number; // when set, warn if one pass of the pattern won't fit the ring
+  seed?: number; // drives [..] choices; the same seed always expands the same way
+  macros?: GrammarMacros; // expanded before parsing; diagnostics point at the reference
+}
+
+// Hard ceiling on expanded items so nested repeats like "((d9)9)9" can't run away
+const MAX_EXPANDED_ITEMS = 4096;
+
+// Parsed grammar before expansion; repeats and choices are resolved by expandNodes
+type GrammarNode =
+  | { kind: 'symbol'; item: GrammarItem; repeat: number }
+  | { kind: 'group'; children: GrammarNode[]; repeat: number }
+  | { kind: 'choice'; options: { weight: number; children: GrammarNode[] }[]; repeat: number }
+  | { kind: 'euclid'; steps: GrammarItem[]; repeat: number };
+
+interface ParserState {
+  source: string;
+  pos: number;
+  errors: GrammarDiagnostic[];
+  warnings: GrammarDiagnostic[];
+  stochastic: boolean;
+}
+
+interface ExpansionState {
+  random: RandomFn;
+  hitExpansionLimit: boolean;
+}
+
+function report(
+  state: ParserState,
+  severity: GrammarDiagnostic['severity'],
+  code: GrammarDiagnosticCode,
+  message: string,
+  start: number,
+  end: number,
+) {
+  const diagnostic: GrammarDiagnostic = { code, severity, message, start, end };
+  if (severity === 'error') state.errors.push(diagnostic);
+  else state.warnings.push(diagnostic);
+}
+
+function isDigit(ch: string | undefined): boolean {
+  return ch !== undefined && ch >= '0' && ch <= '9';
+}
+
+// Reads an optional repeat count; `termStart` is where the repeated symbol or group began
+function readRepeat(state: ParserState, termStart: number): number {
+  let numStr = '';
+  while (isDigit(state.source[state.pos])) {
+    numStr += state.source[state.pos];
+    state.pos++;
+  }
+  if (numStr === '') return 1;
+  const repeat = parseInt(numStr, 10);
+  if (repeat === 0) {
+    report(state, 'warning', 'zero-repeat', 'Repeat count of 0 removes this term', termStart, state.pos);
+  }
+  return repeat;
+}
+
+// Reads an optional override block such as {size=1.6,rotation=0.3}
+function readOverrides(state: ParserState): Record<string, number> | undefined {
+  if (state.source[state.pos] !== '{') return undefined;
+  const blockStart = state.pos;
+  const close = state.source.indexOf('}', blockStart);
+  if (close === -1) {
+    state.pos = state.source.length;
+    report(state, 'error', 'invalid-override', "Override block is missing its closing '}'", blockStart, state.pos);
+    return undefined;
+  }
+
+  const overrides: Record<string, number> = {};
+  let entryStart = blockStart + 1;
+  for (const entry of state.source.slice(blockStart + 1, close).split(',')) {
+    const entryEnd = entryStart + entry.length;
+    const match = /^\s*([A-Za-z]\w*)\s*=\s*(-?(?:\d+\.?\d*|\.\d+))\s*$/.exec(entry);
+    if (match) {
+      overrides[match[1]] = parseFloat(match[2]);
+    } else if (entry.trim() !== '') {
+      report(state, 'error', 'invalid-override', `Expected name=number in override, got '${entry.trim()}'`, entryStart, entryEnd);
+    }
+    entryStart = entryEnd + 1;
+  }
+  state.pos = close + 1;
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+// Reads any orientation modifiers after a symbol: quarter turns ('), <degrees>, mirror (~) and flip (^)
+function readOrientation(state: ParserState, item: GrammarItem) {
+  let turn = 0;
+  while (true) {
+    const ch = state.source[state.pos];
+    if (ch === "'") {
+      turn += 90;
+      state.pos++;
+    } else if (ch === '~') {
+      item.mirror = !item.mirror;
+      state.pos++;
+    } else if (ch === '^') {
+      item.flip = !item.flip;
+      state.pos++;
+    } else if (ch === '<') {
+      const start = state.pos;
+      const match = /^<\s*(-?(?:\d+\.?\d*|\.\d+))\s*>/.exec(state.source.slice(start));
+      if (match) {
+        turn += parseFloat(match[1]);
+        state.pos += match[0].length;
+      } else {
+        const close = state.source.indexOf('>', start);
+        state.pos = close === -1 ? state.source.length : close + 1;
+        report(state, 'error', 'invalid-rotation', 'Expected an angle in degrees, e.g. d<45>', start, state.pos);
+      }
+    } else {
+      break;
+    }
+  }
+  turn %= 360;
+  if (turn !== 0) item.turn = turn;
+  if (!item.mirror) delete item.mirror;
+  if (!item.flip) delete item.flip;
+}
+
+// Reads the options of a [a:2|b|c] choice; the opening '[' is already consumed
+function readChoiceOptions(state: ParserState, start: number): { weight: number; children: GrammarNode[] }[] {
+  const options: { weight: number; children: GrammarNode[] }[] = [];
+  while (true) {
+    const optionStart = state.pos;
+    const children = parseSequence(state, '|:]');
+    let weight = 1;
+
+    if (state.source[state.pos] === ':') {
+      state.pos++;
+      const match = /^\d+\.?\d*|^\.\d+/.exec(state.source.slice(state.pos));
+      if (match) {
+        weight = parseFloat(match[0]);
+        state.pos += match[0].length;
+      } else {
+        report(state, 'error', 'invalid-choice', "Expected a weight after ':'", state.pos - 1, state.pos);
+        weight = 0;
+      }
+    }
+
+    if (children.length === 0) {
+      report(state, 'error', 'invalid-choice', 'Choice option is empty', optionStart, Math.max(state.pos, optionStart + 1));
+    } else {
+      options.push({ weight, children });
     }
 
+    const next = state.source[state.pos];
+    if (next === '|') {
+      state.pos++;
+      continue;
+    }
+    if (next === ']') {
+      state.pos++;
+    } else if (next === ':') {
+      // A second weight on the same option; skip it so parsing can continue
+      state.pos++;
+      report(state, 'error', 'invalid-choice', 'Choice option has more than one weight', state.pos - 1, state.pos);
+      continue;
+    } else {
+      report(state, 'error', 'unclosed-group', "Choice is missing its closing ']'", start, state.pos);
+    }
+    return options;
+  }
+}
+
+/**
+ * Bjorklund's algorithm: spread `pulses` onsets as evenly as possible over `steps`
+ */
+export function euclideanRhythm(pulses: number, steps: number, rotation = 0): boolean[] {
+  if (steps <= 0) return [];
+  let pattern: boolean[];
+  if (pulses <= 0) {
+    pattern = Array.from({ length: steps }, () => false);
+  } else if (pulses >= steps) {
+    pattern = Array.from({ length: steps }, () => true);
+  } else {
+    let front: boolean[][] = Array.from({ length: pulses }, () => [true]);
+    let back: boolean[][] = Array.from({ length: steps - pulses }, () => [false]);
+    while (back.length > 1) {
+      const paired = Math.min(front.length, back.length);
+      const merged: boolean[][] = [];
+      for (let i = 0; i < paired; i++) merged.push([...front[i], ...back[i]]);
+      back = front.length > paired ? front.slice(paired) : back.slice(paired);
+      front = merged;
+    }
+    pattern = [...front.flat(), ...back.flat()];
+  }
+  const shift = ((rotation % steps) + steps) % steps;
+  return [...pattern.slice(shift), ...pattern.slice(0, shift)];
+}
+
+function skipSpaces(state: ParserState) {
+  while (state.pos < state.source.length && /\s/.test(state.source[state.pos])) state.pos++;
+}
+
+function readInteger(state: ParserState): number | undefined {
+  skipSpaces(state);
+  const match = /^-?\d+/.exec(state.source.slice(state.pos));
+  if (!match) return undefined;
+  state.pos += match[0].length;
+  skipSpaces(state);
+  return parseInt(match[0], 10);
+}
+
+// Reads the arguments of E(pulses,steps,symbol[,rotation]); "E(" is already consumed
+function readEuclid(state: ParserState, start: number): GrammarItem[] {
+  const fail = (message: string) => {
+    const close = state.source.indexOf(')', state.pos);
+    state.pos = close === -1 ? state.source.length : close + 1;
+    report(state, 'error', 'invalid-euclid', message, start, state.pos);
+    return [];
+  };
+
+  const pulses = readInteger(state);
+  if (pulses === undefined || state.source[state.pos] !== ',') return fail('Expected E(pulses,steps,symbol[,rotation])');
+  state.pos++;
+  const steps = readInteger(state);
+  if (steps === undefined || state.source[state.pos] !== ',') return fail('Expected E(pulses,steps,symbol[,rotation])');
+  state.pos++;
+
+  const symbolNodes = parseSequence(state, ',)');
+  const symbolNode = symbolNodes[0];
+  if (symbolNodes.length !== 1 || symbolNode.kind !== 'symbol' || symbolNode.repeat !== 1) {
+    return fail('Euclidean rhythm takes a single symbol, e.g. E(5,16,d)');
+  }
+
+  let rotation = 0;
+  if (state.source[state.pos] === ',') {
+    state.pos++;
+    const value = readInteger(state);
+    if (value === undefined) return fail('Expected an integer rotation');
+    rotation = value;
+  }
+  if (state.source[state.pos] !== ')') return fail("Euclidean rhythm is missing its closing ')'");
+  state.pos++;
+
+  if (steps <= 0) {
+    report(state, 'error', 'invalid-euclid', 'Euclidean rhythm needs at least one step', start, state.pos);
+    return [];
+  }
+  if (steps > MAX_EXPANDED_ITEMS) {
+    report(state, 'error', 'invalid-euclid', `Euclidean rhythm can have at most ${MAX_EXPANDED_ITEMS} steps`, start, state.pos);
+    return [];
+  }
+  if (pulses < 0 || pulses > steps) {
+    report(state, 'warning', 'invalid-euclid', `Pulses should be between 0 and ${steps}`, start, state.pos);
+  }
+
+  return euclideanRhythm(pulses, steps, rotation).map((onset) =>
+    onset ? symbolNode.item : { char: 'x', rotated: false },
+  );
+}
+
+// Parses terms until the end of input or one of the `closers` characters (left unconsumed)
+function parseSequence(state: ParserState, closers: string): GrammarNode[] {
+  const sequence: GrammarNode[] = [];
+  while (state.pos < state.source.length) {
+    const start = state.pos;
+    const raw = state.source[start];
+
+    if (closers.includes(raw)) return sequence;
+
+    if (raw === ')' || raw === ']' || raw === '|' || raw === ':') {
+      state.pos++;
+      report(state, 'error', 'unmatched-paren', `Unexpected '${raw}'`, start, state.pos);
+      continue;
+    }
+
+    if (raw === '(') {
+      state.pos++;
+      const children = parseSequence(state, ')');
+      if (state.source[state.pos] === ')') {
+        state.pos++;
+      } else {
+        report(state, 'error', 'unclosed-group', "Group is missing its closing ')'", start, state.pos);
+      }
+      sequence.push({ kind: 'group', children, repeat: readRepeat(state, start) });
+      continue;
+    }
+
+    if (raw === '[') {
+      state.pos++;
+      state.stochastic = true;
+      const options = readChoiceOptions(state, start);
+      sequence.push({ kind: 'choice', options, repeat: readRepeat(state, start) });
+      continue;
+    }
+
+    if (raw === 'E' && state.source[start + 1] === '(') {
+      state.pos += 2;
+      const steps = readEuclid(state, start);
+      sequence.push({ kind: 'euclid', steps, repeat: readRepeat(state, start) });
+      continue;
+    }
+
+    if (raw === "'" || raw === '~' || raw === '^' || raw === '<') {
+      state.pos++;
+      report(state, 'error', 'invalid-rotation', `Modifier ${raw} has no symbol before it`, start, state.pos);
+      continue;
+    }
+
+    if (isDigit(raw)) {
+      while (isDigit(state.source[state.pos])) state.pos++;
+      report(state, 'error', 'dangling-repeat', 'Repeat count has no symbol or group before it', start, state.pos);
+      continue;
+    }
+
+    state.pos++;
+    if (/\s/.test(raw)) continue;
+
     const isUpper = raw === raw.toUpperCase() && raw !== raw.toLowerCase();
     const baseChar = raw.toLowerCase();
 
-    if ('dhlvx'.includes(baseChar)) {
-      const repeat = numStr === '' ? 1 : parseInt(numStr, 10);
-      for (let k = 0; k < repeat; k++) sequence.push({ char: baseChar as GrammarItem['char'], rotated: isUpper });
-      i = j;
-    } else if (baseChar === 'x') {
-      const repeat = numStr === '' ? 1 : parseInt(numStr, 10);
-      for (let k = 0; k < repeat; k++) sequence.push({ char: 'x', rotated: false });
-      i = j;
+    if (baseChar === 'x' || isGlyphSymbol(baseChar)) {
+      const item: GrammarItem = { char: baseChar, rotated: isUpper };
+      readOrientation(state, item);
+      const overrides = readOverrides(state);
+      if (overrides) item.overrides = overrides;
+      sequence.push({ kind: 'symbol', item, repeat: readRepeat(state, start) });
     } else {
-      i++;
+      report(state, 'error', 'unknown-symbol', `Unknown symbol '${raw}'`, start, state.pos);
     }
   }
   return sequence;
 }
+
+function pickWeighted(options: { weight: number; children: GrammarNode[] }[], random: RandomFn) {
+  const total = options.reduce((sum, option) => sum + Math.max(0, option.weight), 0);
+  if (total <= 0) return undefined;
+  let r = random() * total;
+  for (const option of options) {
+    r -= Math.max(0, option.weight);
+    if (r < 0) return option;
+  }
+  return options[options.length - 1];
+}
+
+// Expands nodes into `target`; every repetition of a group or choice draws afresh
+function expandNodes(nodes: GrammarNode[], target: GrammarItem[], expansion: ExpansionState) {
+  for (const node of nodes) {
+    for (let k = 0; k < node.repeat; k++) {
+      if (target.length >= MAX_EXPANDED_ITEMS) {
+        expansion.hitExpansionLimit = true;
+        return;
+      }
+      if (node.kind === 'symbol') {
+        const { item } = node;
+        target.push(item.overrides ? { ...item, overrides: { ...item.overrides } } : { ...item });
+      } else if (node.kind === 'group') {
+        expandNodes(node.children, target, expansion);
+      } else if (node.kind === 'euclid') {
+        for (const item of node.steps) {
+          if (target.length >= MAX_EXPANDED_ITEMS) {
+            expansion.hitExpansionLimit = true;
+            return;
+          }
+          target.push(item.overrides ? { ...item, overrides: { ...item.overrides } } : { ...item });
+        }
+      } else {
+        const option = pickWeighted(node.options, expansion.random);
+        if (option) expandNodes(option.children, target, expansion);
+      }
+    }
+  }
+}
+
+/**
+ * Parse a ring grammar and report problems with their character offsets.
+ * Symbols may carry per-instance overrides and a repeat count (d{size=1.6}2),
+ * parenthesised groups repeat as a unit and nest to any depth ("(dx(hv)2)3"),
+ * [d:3|h|x] picks one weighted option per repeat using `options.seed`, and
+ * E(5,16,d) spreads 5 diamonds evenly over 16 steps, padding with x.
+ * Macro references (options.macros) are expanded first.
+ */
+export function parseGrammarWithDiagnostics(grammarString: string, options: GrammarParseOptions = {}): GrammarParseResult {
+  const expansion = options.macros && Object.keys(options.macros).length > 0
+    ? expandMacros(grammarString, options.macros)
+    : null;
+
+  const state: ParserState = {
+    source: expansion ? expansion.text : grammarString,
+    pos: 0,
+    errors: [],
+    warnings: [],
+    stochastic: false,
+  };
+  const nodes = parseSequence(state, '');
+
+  // Point diagnostics raised inside expanded macros back at the reference in the original text
+  if (expansion) {
+    const { sourceMap } = expansion;
+    for (const diagnostic of [...state.errors, ...state.warnings]) {
+      const start = sourceMap[diagnostic.start];
+      diagnostic.end = Math.max(start + 1, sourceMap[Math.max(diagnostic.start, diagnostic.end - 1)] + 1);
+      diagnostic.start = start;
+    }
+    state.errors.unshift(...expansion.errors);
+  }
+
+  const items: GrammarItem[] = [];
+  const expand: ExpansionState = { random: createRandom(options.seed ?? 0), hitExpansionLimit: false };
+  expandNodes(nodes, items, expand);
+
+  if (expand.hitExpansionLimit) {
+    report(state, 'warning', 'expansion-limit', `Pattern expands past ${MAX_EXPANDED_ITEMS} symbols and was cut off`, 0, grammarString.length);
+  }
+
+  if (options.divisions !== undefined && items.length > options.divisions) {
+    report(
+      state,
+      'warning',
+      'pattern-too-long',
+      `Pattern has ${items.length} symbols but the ring only has ${options.divisions} divisions; the rest is dropped`,
+      0,
+      grammarString.length,
+    );
+  }
+
+  return { items, errors: state.errors, warnings: state.warnings, stochastic: state.stochastic };
+}
+
+/**
+ * Parse a ring grammar into a flat item sequence, ignoring anything invalid.
+ */
+export function parseGrammar(grammarString: string, options: GrammarParseOptions = {}): GrammarItem[] {
+  return parseGrammarWithDiagnostics(grammarString, options).items;
+}
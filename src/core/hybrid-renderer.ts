@@ -1,6 +1,7 @@
 import type p5 from 'p5';
-import { DrawShapeFn } from '../model/types';
+import { DrawShapeFn, StrokeName } from '../model/types';
 import { getPixelRenderer, PixelStrokeOptions } from './pixel-renderer';
+import { getGlyph } from './glyph-registry';
 import { 
   drawPixelDiamond, 
   drawPixelHorizontalHook, 
@@ -41,7 +42,8 @@ export interface HybridDrawOptions {
   size?: number;
   rotation?: number;
   progress?: number;
-  strokeType: 'd' | 'h' | 'l' | 'v' | '-';
+  strokeType: StrokeName;
+  params?: Record<string, number>; // parameters of registered glyphs beyond the ones above
 }
 
 export class HybridRenderer {
@@ -166,7 +168,8 @@ export class HybridRenderer {
       upwardLength: options.upwardLength,
       length: options.length,
       size: options.size,
-      rotation: options.rotation
+      rotation: options.rotation,
+      params: options.params
     };
 
     p.push();
@@ -234,6 +237,9 @@ export class HybridRenderer {
           progress
         });
         break;
+      default:
+        getGlyph(options.strokeType)?.draw(p, { ...options.params, ...originalOptions });
+        break;
     }
 
     p.pop();
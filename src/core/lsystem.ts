@@ -0,0 +1,100 @@
+import { parseGrammarWithDiagnostics } from './grammar';
+
+/**
+ * L-system ring derivation.
+ *
+ * Starting from an axiom, every generation rewrites each symbol through the
+ * rules (d -> dx, x -> h); symbols without a rule are copied. Ring i takes
+ * generation i, so each ring grows out of the one inside it.
+ */
+
+export interface LSystemRule {
+  from: string; // a single grammar symbol, case-sensitive (D is the rotated d)
+  to: string;
+}
+
+export interface LSystemState {
+  enabled: boolean;
+  axiom: string;
+  rules: LSystemRule[];
+}
+
+// Off, with a starter axiom and rules to edit; also used for saves without an L-system
+export function defaultLSystem(): LSystemState {
+  return {
+    enabled: false,
+    axiom: 'd',
+    rules: [
+      { from: 'd', to: 'dx' },
+      { from: 'x', to: 'h' },
+    ],
+  };
+}
+
+// Generations roughly double in length, so stop growing well before they get huge
+const MAX_GENERATION_LENGTH = 4096;
+
+/**
+ * Parse rules written one per line (or comma separated) as "d -> dx"
+ */
+export function parseLSystemRules(text: string): { rules: LSystemRule[]; errors: string[] } {
+  const rules: LSystemRule[] = [];
+  const errors: string[] = [];
+  for (const line of text.split(/[\n,]/)) {
+    if (line.trim() === '') continue;
+    const match = /^\s*(\S)\s*->\s*(\S*)\s*$/.exec(line);
+    if (!match) {
+      errors.push(`Expected "symbol -> replacement", got "${line.trim()}"`);
+      continue;
+    }
+    if (rules.some((rule) => rule.from === match[1])) {
+      errors.push(`More than one rule for "${match[1]}"`);
+      continue;
+    }
+    rules.push({ from: match[1], to: match[2] });
+  }
+  return { rules, errors };
+}
+
+// Rewriting works one character at a time, so only bare symbols (no counts, groups or overrides) are allowed
+function isPlainSymbolString(text: string): boolean {
+  const result = parseGrammarWithDiagnostics(text);
+  return result.errors.length === 0 && result.items.length === text.length;
+}
+
+/**
+ * Problems with an axiom and rule set, as user-facing messages
+ */
+export function validateLSystem(axiom: string, rules: LSystemRule[]): string[] {
+  const errors: string[] = [];
+  if (axiom === '') errors.push('Axiom is empty');
+  else if (!isPlainSymbolString(axiom)) errors.push(`Axiom "${axiom}" must be plain symbols like dxh`);
+  for (const rule of rules) {
+    if (!isPlainSymbolString(rule.from)) errors.push(`"${rule.from}" is not a symbol`);
+    if (!isPlainSymbolString(rule.to)) errors.push(`Replacement "${rule.to}" must be plain symbols like dxh`);
+  }
+  return errors;
+}
+
+export function formatLSystemRules(rules: LSystemRule[]): string {
+  return rules.map((rule) => `${rule.from} -> ${rule.to}`).join('\n');
+}
+
+/**
+ * The first `count` generations, starting with the axiom itself
+ */
+export function generateLSystem(axiom: string, rules: LSystemRule[], count: number): string[] {
+  const lookup = new Map(rules.map((rule) => [rule.from, rule.to]));
+  const generations: string[] = [];
+  let current = axiom;
+  for (let i = 0; i < count; i++) {
+    generations.push(current);
+    let next = '';
+    for (const symbol of current) {
+      next += lookup.get(symbol) ?? symbol;
+      if (next.length >= MAX_GENERATION_LENGTH) break;
+    }
+    current = next.slice(0, MAX_GENERATION_LENGTH);
+  }
+  return generations;
+}
@@ -0,0 +1,122 @@
+import type { GrammarDiagnostic } from './grammar';
+import { isGlyphSymbol } from './glyph-registry';
+
+/**
+ * Artwork-level grammar macros: a single uppercase letter standing for a
+ * grammar fragment (A = dxh, B = (lx)2), so rings can write "A2B".
+ *
+ * Expansion is textual and happens before parsing. Each reference becomes a
+ * parenthesised group, so a repeat count after it repeats the whole body.
+ */
+
+export type GrammarMacros = Record<string, string>;
+
+// Uppercase letters the grammar already gives a meaning to besides rotated glyphs (X gap, E(..) rhythms)
+const RESERVED_MACRO_NAMES = 'XE';
+
+// Guard against macros that reference each other in a doubling chain
+const MAX_EXPANDED_LENGTH = 20000;
+
+export interface MacroExpansion {
+  text: string;
+  sourceMap: number[]; // for each character of `text`, its offset in the original grammar (plus an end sentinel)
+  errors: GrammarDiagnostic[];
+}
+
+export function isValidMacroName(name: string): boolean {
+  return /^[A-Z]$/.test(name) && !RESERVED_MACRO_NAMES.includes(name) && !isGlyphSymbol(name.toLowerCase());
+}
+
+function isMacroReference(ch: string, macros: GrammarMacros): boolean {
+  return isValidMacroName(ch) && Object.prototype.hasOwnProperty.call(macros, ch);
+}
+
+/**
+ * Replace macro references with their bodies, recursively, reporting cycles.
+ * Override blocks ({curveIntensity=1}) are copied verbatim so parameter names
+ * are never mistaken for macros.
+ */
+export function expandMacros(grammar: string, macros: GrammarMacros): MacroExpansion {
+  const errors: GrammarDiagnostic[] = [];
+  const sourceMap: number[] = [];
+  let text = '';
+  let overflowed = false;
+
+  const emit = (chunk: string, origin: number) => {
+    text += chunk;
+    for (let k = 0; k < chunk.length; k++) sourceMap.push(origin);
+  };
+
+  // `origin` is the offset of the top-level reference being expanded, or null at top level
+  const expand = (source: string, stack: string[], origin: number | null) => {
+    let i = 0;
+    while (i < source.length) {
+      if (text.length > MAX_EXPANDED_LENGTH) {
+        if (!overflowed) {
+          overflowed = true;
+          errors.push({
+            code: 'macro-error',
+            severity: 'error',
+            message: `Macros expand past ${MAX_EXPANDED_LENGTH} characters`,
+            start: origin ?? i,
+            end: (origin ?? i) + 1,
+          });
+        }
+        return;
+      }
+
+      const ch = source[i];
+      const at = origin ?? i;
+
+      if (ch === '{') {
+        const close = source.indexOf('}', i);
+        const end = close === -1 ? source.length : close + 1;
+        for (let j = i; j < end; j++) emit(source[j], origin ?? j);
+        i = end;
+        continue;
+      }
+
+      if (isMacroReference(ch, macros)) {
+        if (stack.includes(ch)) {
+          errors.push({
+            code: 'macro-error',
+            severity: 'error',
+            message: `Macro ${ch} refers to itself (${[...stack, ch].join(' → ')})`,
+            start: at,
+            end: at + 1,
+          });
+        } else {
+          emit('(', at);
+          expand(macros[ch], [...stack, ch], at);
+          emit(')', at);
+        }
+        i++;
+        continue;
+      }
+
+      emit(ch, at);
+      i++;
+    }
+  };
+
+  expand(grammar, [], null);
+  sourceMap.push(grammar.length);
+  return { text, sourceMap, errors };
+}
+
+/**
+ * Names of every macro a grammar uses, directly or through other macros
+ */
+export function findMacroReferences(grammar: string, macros: GrammarMacros): Set<string> {
+  const found = new Set<string>();
+  const visit = (source: string) => {
+    for (const ch of source) {
+      if (isMacroReference(ch, macros) && !found.has(ch)) {
+        found.add(ch);
+        visit(macros[ch]);
+      }
+    }
+  };
+  visit(grammar);
+  return found;
+}
@@ -0,0 +1,102 @@
+/**
+ * Modulation of glyph parameters around a ring.
+ *
+ * Instead of (or as well as) independent random jitter, a parameter can follow
+ * a smooth source that varies with the glyph's angle on the ring:
+ *
+ * - noise: 3-D Perlin (gradient) noise sampled on a circle, so it joins up where the
+ *   ring closes, and shifted by the ring's radius so neighbouring rings are related
+ * - sine: a sine wave with `frequency` cycles per ring
+ * - saw: a rising sawtooth with `frequency` teeth per ring
+ *
+ * `amount` is how far the value moves, as a fraction of half the parameter's range.
+ */
+
+import { hashSeed } from './random';
+import type { RangeParam } from '../model/types';
+
+export type ModulationSource = 'noise' | 'sine' | 'saw';
+
+export interface Modulation {
+  source: ModulationSource;
+  amount: number; // 0..1 of half the parameter's range
+  frequency: number; // cycles around the ring
+  phase: number; // 0..1 of a cycle
+}
+
+export const MODULATION_SOURCES: { value: ModulationSource; label: string }[] = [
+  { value: 'noise', label: 'Noise' },
+  { value: 'sine', label: 'Sine' },
+  { value: 'saw', label: 'Sawtooth' },
+];
+
+export const DEFAULT_MODULATION: Modulation = {
+  source: 'noise',
+  amount: 0.5,
+  frequency: 3,
+  phase: 0,
+};
+
+// The twelve cube-edge directions of improved Perlin noise
+const GRADIENTS: [number, number, number][] = [
+  [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+  [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+  [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+// Dot product of a lattice point's gradient with the offset (dx, dy, dz) from it
+function lattice(seed: number, x: number, y: number, z: number, dx: number, dy: number, dz: number): number {
+  const [gx, gy, gz] = GRADIENTS[hashSeed(seed, x, y, z) % GRADIENTS.length];
+  return gx * dx + gy * dy + gz * dz;
+}
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// 3-D Perlin gradient noise in -1..1
+function perlinNoise(seed: number, x: number, y: number, z: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const z0 = Math.floor(z);
+  const fx = x - x0;
+  const fy = y - y0;
+  const fz = z - z0;
+  const corner = (dx: number, dy: number, dz: number) =>
+    lattice(seed, x0 + dx, y0 + dy, z0 + dz, fx - dx, fy - dy, fz - dz);
+  const tx = fade(fx);
+  const ty = fade(fy);
+  const face = (dz: number) =>
+    lerp(lerp(corner(0, 0, dz), corner(1, 0, dz), tx), lerp(corner(0, 1, dz), corner(1, 1, dz), tx), ty);
+  return Math.max(-1, Math.min(1, lerp(face(0), face(1), fade(fz))));
+}
+
+/**
+ * The source's value in -1..1 for a glyph at `angle` (radians) on a ring of
+ * `radius` wheel units
+ */
+export function modulationWave(modulation: Modulation, angle: number, radius: number, seed: number): number {
+  const turns = angle / (Math.PI * 2);
+  switch (modulation.source) {
+    case 'sine':
+      return Math.sin((turns * modulation.frequency + modulation.phase) * Math.PI * 2);
+    case 'saw': {
+      const t = turns * modulation.frequency + modulation.phase;
+      return 2 * (t - Math.floor(t)) - 1;
+    }
+    case 'noise':
+    default: {
+      // A circle of this radius in noise space crosses about `frequency` bumps
+      const circle = Math.max(0.01, modulation.frequency) / Math.PI;
+      const z = (radius + modulation.phase) * Math.max(1, modulation.frequency);
+      return perlinNoise(seed, Math.cos(angle) * circle, Math.sin(angle) * circle, z);
+    }
+  }
+}
+
+/**
+ * The parameter's value moved by `wave` (-1..1), kept within its range
+ */
+export function modulateParam(param: RangeParam, modulation: Modulation, wave: number): number {
+  const offset = wave * modulation.amount * ((param.max - param.min) / 2);
+  return Math.min(param.max, Math.max(param.min, param.value + offset));
+}
@@ -9,6 +9,7 @@ import {
   initializeArtwork as initializeArtworkStore 
 } from '../store/artwork';
 import { logRingStrokeData } from '../model/particle';
+import { WHEEL_DRAW_RADIUS } from './constants';
 
 export function mountSketch(container: HTMLElement) {
   let pInstance: p5 | null = null;
@@ -108,6 +109,10 @@ export function mountSketch(container: HTMLElement) {
         p.colorMode(p.HSB, 360, 100, 100);
       }
       
+      // Rings and the dot are built at WHEEL_DRAW_RADIUS; fit the wheel to this canvas
+      p.push();
+      p.scale(Math.min(p.width, p.height) / 2 / WHEEL_DRAW_RADIUS);
+
       // Display rings - now reactive to store
       const currentRings = rings();
       for (const r of currentRings) {
@@ -128,6 +133,7 @@ export function mountSketch(container: HTMLElement) {
       }
       
       p.pop();
+      p.pop();
     };
 
     p.windowResized = () => {
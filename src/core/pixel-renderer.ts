@@ -1,4 +1,6 @@
 import type p5 from 'p5';
+import type { StrokeName } from '../model/types';
+import { getGlyph } from './glyph-registry';
 
 /**
  * Pixel-based stroke rendering system for improved performance
@@ -21,13 +23,14 @@ export interface PixelStrokeOptions {
   strokeCount: number;
   colorBleed: number;
   baseColor: p5.Color;
-  strokeType: 'd' | 'h' | 'l' | 'v' | '-';
+  strokeType: StrokeName;
   segments?: number;
   curveIntensity?: number;
   upwardLength?: number;
   length?: number;
   size?: number;
   rotation?: number;
+  params?: Record<string, number>; // parameters of registered glyphs beyond the ones above
 }
 
 export interface StrokeTexture {
@@ -64,8 +67,11 @@ export class PixelStrokeRenderer {
     const roundedUpwardLength = Math.round(upwardLength * 100) / 100;
     const roundedLength = Math.round(length * 100) / 100;
     const roundedSize = Math.round(size * 100) / 100;
+    const roundedParams = Object.entries(options.params ?? {})
+      .map(([name, value]) => `${name}=${Math.round(value * 100) / 100}`)
+      .join(',');
     
-    return `${strokeType}_${roundedW}_${roundedH}_${roundedStrokeWidth}_${roundedStrokeCount}_${roundedColorBleed}_${roundedCurveIntensity}_${roundedUpwardLength}_${roundedLength}_${roundedSize}`;
+    return `${strokeType}_${roundedW}_${roundedH}_${roundedStrokeWidth}_${roundedStrokeCount}_${roundedColorBleed}_${roundedCurveIntensity}_${roundedUpwardLength}_${roundedLength}_${roundedSize}_${roundedParams}`;
   }
 
   /**
@@ -100,6 +106,10 @@ export class PixelStrokeRenderer {
       case '-':
         this.generateSolidRingTexture(buffer, options, textureWidth, textureHeight);
         break;
+      default:
+        // Registered glyphs bring their own texture; without one the texture stays blank
+        getGlyph(strokeType)?.pixelTexture?.(buffer, options, textureWidth, textureHeight);
+        break;
     }
     
     return {
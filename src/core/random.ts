@@ -0,0 +1,42 @@
+/**
+ * Small seeded random utilities.
+ *
+ * p5's random() is a single global stream, so anything that has to come out
+ * the same after a reload (grammar expansion, saved layouts) draws from its
+ * own generator built from a stored seed instead.
+ */
+
+export type RandomFn = () => number;
+
+/**
+ * Create a deterministic generator (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed: number): RandomFn {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Mix several integers into one 32-bit seed
+ */
+export function hashSeed(...values: number[]): number {
+  let h = 0x811c9dc5;
+  for (const value of values) {
+    h = Math.imul(h ^ (value | 0), 0x01000193);
+    h ^= h >>> 13;
+  }
+  return h >>> 0;
+}
+
+/**
+ * Fresh seed for new artwork or a reroll
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
@@ -0,0 +1,175 @@
+/**
+ * The curve a ring's glyphs are laid out along.
+ *
+ * - circle: the default round ring
+ * - ellipse: stretched by `aspect` (height / width)
+ * - polygon: a regular polygon with `sides`, its corners on the ring's radius
+ * - superellipse: |x|^n + |y|^n = 1, rounder below n = 2 and squarer above it
+ * - spiral: an Archimedean spiral of `turns` turns winding out to the ring's radius
+ *
+ * Every shape is rotated by `tilt` and scales with the ring's radius. Positions
+ * are spaced by arc length, so an angle on the ring is a fraction of the way
+ * along the path rather than a direction from the center.
+ */
+
+export type RingPathType = 'circle' | 'ellipse' | 'polygon' | 'superellipse' | 'spiral';
+
+// Glyphs turn with the path's tangent (as on a circle), or a quarter turn from it along the normal
+export type GlyphAlignment = 'tangent' | 'normal';
+
+export interface RingPath {
+  type: RingPathType;
+  aspect: number; // ellipse and superellipse
+  tilt: number; // degrees
+  sides: number; // polygon
+  exponent: number; // superellipse
+  turns: number; // spiral
+  align: GlyphAlignment;
+}
+
+export interface RingPathPoint {
+  x: number;
+  y: number;
+  heading: number; // direction of travel along the path, in radians
+}
+
+export const RING_PATH_TYPES: { value: RingPathType; label: string }[] = [
+  { value: 'circle', label: 'Circle' },
+  { value: 'ellipse', label: 'Ellipse' },
+  { value: 'polygon', label: 'Polygon' },
+  { value: 'superellipse', label: 'Superellipse' },
+  { value: 'spiral', label: 'Spiral' },
+];
+
+export const DEFAULT_RING_PATH: RingPath = {
+  type: 'circle',
+  aspect: 0.6,
+  tilt: 0,
+  sides: 6,
+  exponent: 4,
+  turns: 2,
+  align: 'tangent',
+};
+
+const SAMPLES_PER_TURN = 360;
+
+// Samples along the whole path; polygons get a whole number per side so corners stay sharp
+function sampleCount(path: RingPath): number {
+  if (path.type === 'spiral') return SAMPLES_PER_TURN * Math.max(1, Math.ceil(path.turns));
+  if (path.type === 'polygon') {
+    const sides = Math.max(3, Math.round(path.sides));
+    return sides * Math.ceil(SAMPLES_PER_TURN / sides);
+  }
+  return SAMPLES_PER_TURN;
+}
+
+// Point on the untilted shape at u in 0..1, with the ring's radius as 1
+function shapePoint(path: RingPath, u: number): { x: number; y: number } {
+  const angle = u * Math.PI * 2;
+  switch (path.type) {
+    case 'ellipse':
+      return { x: Math.cos(angle), y: path.aspect * Math.sin(angle) };
+    case 'polygon': {
+      const sides = Math.max(3, Math.round(path.sides));
+      const along = u * sides;
+      const k = Math.min(sides - 1, Math.floor(along));
+      const t = along - k;
+      const a = (k / sides) * Math.PI * 2;
+      const b = ((k + 1) / sides) * Math.PI * 2;
+      return {
+        x: Math.cos(a) + (Math.cos(b) - Math.cos(a)) * t,
+        y: Math.sin(a) + (Math.sin(b) - Math.sin(a)) * t,
+      };
+    }
+    case 'superellipse': {
+      const power = 2 / Math.max(0.1, path.exponent);
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      return {
+        x: Math.sign(cos) * Math.pow(Math.abs(cos), power),
+        y: path.aspect * Math.sign(sin) * Math.pow(Math.abs(sin), power),
+      };
+    }
+    case 'spiral': {
+      // r = b(θ + 2π): starts one turn's gap from the center and ends on the radius
+      const turns = Math.max(0.25, path.turns);
+      const theta = u * turns * Math.PI * 2;
+      const r = (1 + turns * u) / (1 + turns);
+      return { x: r * Math.cos(theta), y: r * Math.sin(theta) };
+    }
+    case 'circle':
+    default:
+      return { x: Math.cos(angle), y: Math.sin(angle) };
+  }
+}
+
+export interface RingPathSampler {
+  length: number; // total length of the path at this radius
+  pointAt(angle: number): RingPathPoint;
+}
+
+/**
+ * Positions along a ring's path at `radius`, where an angle of 2π is the
+ * whole path and angles wrap around it
+ */
+export function createRingPathSampler(path: RingPath, radius: number): RingPathSampler {
+  const tilt = (path.tilt * Math.PI) / 180;
+
+  if (path.type === 'circle') {
+    return {
+      length: Math.PI * 2 * radius,
+      pointAt: (angle) => ({
+        x: radius * Math.cos(angle + tilt),
+        y: radius * Math.sin(angle + tilt),
+        heading: angle + tilt + Math.PI / 2,
+      }),
+    };
+  }
+
+  const cos = Math.cos(tilt);
+  const sin = Math.sin(tilt);
+  const count = sampleCount(path);
+  const points = Array.from({ length: count + 1 }, (_, i) => {
+    const { x, y } = shapePoint(path, i / count);
+    return { x: radius * (x * cos - y * sin), y: radius * (x * sin + y * cos) };
+  });
+  const travelled = [0];
+  for (let i = 1; i <= count; i++) {
+    travelled.push(travelled[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  const length = travelled[count];
+
+  const pointAt = (angle: number): RingPathPoint => {
+    const fraction = ((angle / (Math.PI * 2)) % 1 + 1) % 1;
+    const target = fraction * length;
+    let lo = 0;
+    let hi = count;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (travelled[mid] <= target) lo = mid;
+      else hi = mid;
+    }
+    const a = points[lo];
+    const b = points[hi];
+    const segment = travelled[hi] - travelled[lo];
+    const t = segment > 0 ? (target - travelled[lo]) / segment : 0;
+    return {
+      x: a.x + (b.x - a.x) * t,
+      y: a.y + (b.y - a.y) * t,
+      heading: Math.atan2(b.y - a.y, b.x - a.x),
+    };
+  };
+
+  return { length, pointAt };
+}
+
+/**
+ * Points along the path from `start` over `sweep` radians, for drawing it as a line
+ */
+export function traceRingPath(path: RingPath, radius: number, start: number, sweep: number): { x: number; y: number }[] {
+  const sampler = createRingPathSampler(path, radius);
+  const steps = Math.max(8, Math.ceil((sampleCount(path) * sweep) / (Math.PI * 2)));
+  // Stop just short of a full sweep so open paths don't jump back to their start
+  const end = sweep >= Math.PI * 2 ? sweep - 1e-6 : sweep;
+  return Array.from({ length: steps + 1 }, (_, i) => sampler.pointAt(start + (end * i) / steps));
+}
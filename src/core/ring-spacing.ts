@@ -0,0 +1,103 @@
+/**
+ * How rings are spread between the inner and outer radius.
+ *
+ * - linear: equal gaps
+ * - geometric: each radius a constant ratio of the one inside it
+ * - fibonacci: gaps grow outwards as 1, 1, 2, 3, 5, ...
+ * - golden: gaps grow outwards by the golden ratio
+ * - easing: positions follow a cubic bezier easing curve, as in CSS
+ */
+
+export type RingSpacingMode = 'linear' | 'geometric' | 'fibonacci' | 'golden' | 'easing';
+
+// Control points of a cubic-bezier(x1, y1, x2, y2) curve from (0,0) to (1,1)
+export type EasingCurve = [number, number, number, number];
+
+export interface RingSpacing {
+  mode: RingSpacingMode;
+  innerRadius: number; // wheel units, 1 = edge of the wheel
+  outerRadius: number;
+  easing: EasingCurve;
+}
+
+export const RING_SPACING_MODES: { value: RingSpacingMode; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'geometric', label: 'Geometric' },
+  { value: 'fibonacci', label: 'Fibonacci' },
+  { value: 'golden', label: 'Golden ratio' },
+  { value: 'easing', label: 'Easing curve' },
+];
+
+export const DEFAULT_EASING: EasingCurve = [0.42, 0, 0.58, 1]; // ease-in-out
+
+const GOLDEN_RATIO = (1 + Math.sqrt(5)) / 2;
+
+// Positions 0..1 from a list of gap sizes, innermost gap first
+function fromGaps(gaps: number[]): number[] {
+  const total = gaps.reduce((sum, gap) => sum + gap, 0);
+  const positions = [0];
+  let travelled = 0;
+  for (const gap of gaps) {
+    travelled += gap;
+    positions.push(travelled / total);
+  }
+  return positions;
+}
+
+// y of a cubic bezier easing curve at x, solving for the curve parameter by bisection
+export function easeAt(x: number, [x1, y1, x2, y2]: EasingCurve): number {
+  const bezier = (t: number, a: number, b: number) => 3 * (1 - t) * (1 - t) * t * a + 3 * (1 - t) * t * t * b + t * t * t;
+  let lo = 0;
+  let hi = 1;
+  for (let k = 0; k < 30; k++) {
+    const mid = (lo + hi) / 2;
+    if (bezier(mid, x1, x2) < x) lo = mid;
+    else hi = mid;
+  }
+  return bezier((lo + hi) / 2, y1, y2);
+}
+
+/**
+ * Radius of each of `count` rings, innermost first
+ */
+export function computeSpacedRadii(count: number, spacing: RingSpacing): number[] {
+  const { mode, innerRadius, outerRadius } = spacing;
+  if (count <= 0) return [];
+  if (count === 1) return [outerRadius];
+  const steps = count - 1;
+
+  if (mode === 'geometric' && innerRadius > 0) {
+    const ratio = outerRadius / innerRadius;
+    return Array.from({ length: count }, (_, i) => innerRadius * Math.pow(ratio, i / steps));
+  }
+
+  let positions: number[];
+  switch (mode) {
+    case 'fibonacci': {
+      const gaps = [1, 1];
+      while (gaps.length < steps) gaps.push(gaps[gaps.length - 1] + gaps[gaps.length - 2]);
+      positions = fromGaps(gaps.slice(0, steps));
+      break;
+    }
+    case 'golden':
+      positions = fromGaps(Array.from({ length: steps }, (_, i) => Math.pow(GOLDEN_RATIO, i)));
+      break;
+    case 'easing':
+      positions = Array.from({ length: count }, (_, i) => easeAt(i / steps, spacing.easing));
+      break;
+    case 'linear':
+    default:
+      positions = Array.from({ length: count }, (_, i) => i / steps);
+  }
+  return positions.map((t) => innerRadius + (outerRadius - innerRadius) * t);
+}
+
+// Linear spacing matching existing radii, for saves made before spacing modes existed
+export function inferRingSpacing(radii: number[]): RingSpacing {
+  return {
+    mode: 'linear',
+    innerRadius: radii.length > 1 ? Math.min(...radii) : 0.125,
+    outerRadius: radii.length > 0 ? Math.max(...radii) : 0.85,
+    easing: [...DEFAULT_EASING],
+  };
+}
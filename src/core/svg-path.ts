@@ -0,0 +1,248 @@
+import type { PathPoint } from './alphabet/nib-path';
+
+/**
+ * SVG path data (the `d` attribute) to polylines.
+ *
+ * Supports M, L, H, V, C, Q, A and Z in absolute and relative (lowercase)
+ * form. Curves and arcs are sampled into straight segments, and the result is
+ * centred on the origin and scaled so its larger side is 1, ready to be drawn
+ * at any slot size.
+ */
+
+export interface SampledPath {
+  paths: PathPoint[][]; // one polyline per subpath
+  error: string | null;
+}
+
+// Straight segments per curve or per half-turn of arc
+const CURVE_SAMPLES = 16;
+
+const PARAM_COUNTS: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, Q: 4, A: 7, Z: 0 };
+
+function tokenize(d: string): { tokens: (string | number)[]; error: string | null } {
+  const tokens: (string | number)[] = [];
+  const pattern = /\s*(?:([A-Za-z])|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?))\s*,?/y;
+  // An arc's large-arc and sweep flags are one character each, so `0110` is two flags then 10
+  const flagPattern = /\s*([01])\s*,?/y;
+  let command = '';
+  let numbers = 0; // numbers read since the last command letter
+  let pos = 0;
+  while (pos < d.length) {
+    const isFlag = command === 'A' && (numbers % 7 === 3 || numbers % 7 === 4);
+    const current = isFlag ? flagPattern : pattern;
+    current.lastIndex = pos;
+    const match = current.exec(d);
+    if (isFlag && !match) return { tokens, error: `Arc flag at position ${pos} must be 0 or 1` };
+    if (!match || match[0] === '') return { tokens, error: `Unexpected '${d[pos]}' at position ${pos}` };
+    if (isFlag) {
+      tokens.push(Number(match[1]));
+      numbers++;
+    } else if (match[1] !== undefined) {
+      if (PARAM_COUNTS[match[1].toUpperCase()] === undefined) {
+        return { tokens, error: `Unsupported command '${match[1]}'; use M, L, H, V, C, Q, A or Z` };
+      }
+      tokens.push(match[1]);
+      command = match[1].toUpperCase();
+      numbers = 0;
+    } else {
+      tokens.push(parseFloat(match[2]));
+      numbers++;
+    }
+    pos = current.lastIndex;
+  }
+  return { tokens, error: null };
+}
+
+function sampleCubic(from: PathPoint, c1: PathPoint, c2: PathPoint, to: PathPoint, out: PathPoint[]) {
+  for (let j = 1; j <= CURVE_SAMPLES; j++) {
+    const t = j / CURVE_SAMPLES;
+    const u = 1 - t;
+    out.push({
+      x: u * u * u * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * to.x,
+      y: u * u * u * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * to.y,
+    });
+  }
+}
+
+function sampleQuadratic(from: PathPoint, c: PathPoint, to: PathPoint, out: PathPoint[]) {
+  for (let j = 1; j <= CURVE_SAMPLES; j++) {
+    const t = j / CURVE_SAMPLES;
+    const u = 1 - t;
+    out.push({
+      x: u * u * from.x + 2 * u * t * c.x + t * t * to.x,
+      y: u * u * from.y + 2 * u * t * c.y + t * t * to.y,
+    });
+  }
+}
+
+// Endpoint arc to centre form, as in the SVG spec (implementation notes F.6.5)
+function sampleArc(
+  from: PathPoint,
+  rxIn: number,
+  ryIn: number,
+  xAxisRotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: PathPoint,
+  out: PathPoint[],
+) {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+    out.push(to);
+    return;
+  }
+  const phi = (xAxisRotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up until they just do
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+  };
+  const startAngle = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  const steps = Math.max(2, Math.ceil((Math.abs(delta) / Math.PI) * CURVE_SAMPLES));
+  for (let j = 1; j <= steps; j++) {
+    const theta = startAngle + (delta * j) / steps;
+    const ex = rx * Math.cos(theta);
+    const ey = ry * Math.sin(theta);
+    out.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+  }
+}
+
+// Centre on the origin and scale so the larger side of the bounding box is 1
+function normalize(paths: PathPoint[][]): PathPoint[][] {
+  const all = paths.flat();
+  const xs = all.map((point) => point.x);
+  const ys = all.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+  const scale = Math.max(width, height) || 1;
+  return paths.map((path) =>
+    path.map((point) => ({
+      x: (point.x - minX - width / 2) / scale,
+      y: (point.y - minY - height / 2) / scale,
+    })),
+  );
+}
+
+export function sampleSvgPath(d: string): SampledPath {
+  const { tokens, error } = tokenize(d);
+  if (error) return { paths: [], error };
+
+  const paths: PathPoint[][] = [];
+  let current: PathPoint[] = [];
+  let cursor: PathPoint = { x: 0, y: 0 };
+  let subpathStart: PathPoint = { x: 0, y: 0 };
+  let command = '';
+  let i = 0;
+
+  const finishSubpath = () => {
+    if (current.length > 1) paths.push(current);
+    current = [];
+  };
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (typeof token === 'string') {
+      command = token;
+      i++;
+    } else if (command === '') {
+      return { paths: [], error: 'Path data must start with a command such as M' };
+    }
+
+    const upper = command.toUpperCase();
+    const relative = command !== upper;
+    const count = PARAM_COUNTS[upper];
+    if (count === 0 && typeof token === 'number') {
+      return { paths: [], error: `Numbers after '${command}' need a command before them` };
+    }
+    const args = tokens.slice(i, i + count);
+    if (args.length < count || args.some((arg) => typeof arg !== 'number')) {
+      return { paths: [], error: `'${command}' needs ${count} numbers` };
+    }
+    const n = args as number[];
+    i += count;
+
+    const point = (x: number, y: number): PathPoint => (relative ? { x: cursor.x + x, y: cursor.y + y } : { x, y });
+
+    switch (upper) {
+      case 'M':
+        finishSubpath();
+        cursor = point(n[0], n[1]);
+        subpathStart = cursor;
+        current.push(cursor);
+        // Further coordinate pairs after a move are line segments
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        cursor = point(n[0], n[1]);
+        current.push(cursor);
+        break;
+      case 'H':
+        cursor = { x: relative ? cursor.x + n[0] : n[0], y: cursor.y };
+        current.push(cursor);
+        break;
+      case 'V':
+        cursor = { x: cursor.x, y: relative ? cursor.y + n[0] : n[0] };
+        current.push(cursor);
+        break;
+      case 'C': {
+        const to = point(n[4], n[5]);
+        sampleCubic(cursor, point(n[0], n[1]), point(n[2], n[3]), to, current);
+        cursor = to;
+        break;
+      }
+      case 'Q': {
+        const to = point(n[2], n[3]);
+        sampleQuadratic(cursor, point(n[0], n[1]), to, current);
+        cursor = to;
+        break;
+      }
+      case 'A': {
+        const to = point(n[5], n[6]);
+        sampleArc(cursor, n[0], n[1], n[2], n[3] !== 0, n[4] !== 0, to, current);
+        cursor = to;
+        break;
+      }
+      case 'Z':
+        current.push(subpathStart);
+        cursor = subpathStart;
+        finishSubpath();
+        current.push(cursor);
+        break;
+    }
+
+    if (current.length === 0) current.push(cursor);
+  }
+  finishSubpath();
+
+  if (paths.length === 0) return { paths: [], error: 'Path has nothing to draw' };
+  return { paths: normalize(paths), error: null };
+}
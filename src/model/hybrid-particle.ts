@@ -91,7 +91,7 @@ export class Particle {
     let strokeBaseColor = this.baseColor;
     if (this.strokeType) {
       // Use the color assignment system to get the correct color index
-      const colorIndex = getStrokeColorIndex(this.ringIndex, this.strokeType as 'd' | 'h' | 'l' | 'v' | '-');
+      const colorIndex = getStrokeColorIndex(this.ringIndex, this.strokeType);
       
       if (colorIndex >= 0 && colorIndex < currentPalette.length) {
         strokeBaseColor = currentPalette[colorIndex];
@@ -116,7 +116,7 @@ export class Particle {
       }
       
       const ringData = ringStrokeData.get(this.ringIndex)!;
-      const colorIndex = getStrokeColorIndex(this.ringIndex, this.strokeType as 'd' | 'h' | 'l' | 'v' | '-');
+      const colorIndex = getStrokeColorIndex(this.ringIndex, this.strokeType);
       
       ringData.set(this.strokeType, {
         color: strokeBaseColor,
@@ -193,7 +193,7 @@ export class Particle {
       size: options.size,
       rotation: options.rotation,
       progress: options.progress,
-      strokeType: this.strokeType as 'd' | 'h' | 'l' | 'v' | '-' || 'd'
+      strokeType: this.strokeType || 'd'
     };
 
     // Use hybrid renderer
@@ -1,8 +1,9 @@
 import type p5 from 'p5';
+import { WHEEL_DRAW_RADIUS } from '../core/constants';
 
 export interface InnerDotState {
   visible: boolean;
-  radius: number;
+  radius: number; // in wheel units, like ring radii
   color1Index: number;
   color2Index: number;
   gradientStop: number; // 0..1
@@ -24,7 +25,7 @@ export function drawInnerDot(p: p5, palette: p5.Color[], innerDot: InnerDotState
 
   for (let i = stepsToDraw - 1; i >= 0; i--) {
     const t = i / (numSteps - 1);
-    const currentRadius = p.map(i, 0, numSteps - 1, 0, innerDot.radius);
+    const currentRadius = p.map(i, 0, numSteps - 1, 0, innerDot.radius * WHEEL_DRAW_RADIUS);
 
     // Create a smooth radial gradient
     // gradientStop controls where the transition from color1 to color2 happens
@@ -1,9 +1,19 @@
 import type p5 from 'p5';
 import { DrawShapeFn } from './types';
-import { globals, palette, rings, getStrokeColorIndex } from '../store/artwork';
+import type { RingStrokeSetting, RingStrokeSettings } from './types';
+import { globals, palette, rings, getStrokeColorIndex, artworkSeed } from '../store/artwork';
+import { createRandom, hashSeed } from '../core/random';
+import { modulateParam, modulationWave } from '../core/modulation';
+import type { Modulation } from '../core/modulation';
+import { withGradient } from '../core/gradients';
+import { WHEEL_DRAW_RADIUS } from '../core/constants';
+import type { RandomFn } from '../core/random';
 import { logColorInfo } from '../core/color';
+import type { GlyphOrientation } from '../core/grammar';
+import { listGlyphs } from '../core/glyph-registry';
 
-const DIVISIONS = 64;
+// Options getOptions fills in explicitly, with their own fallbacks
+const NAMED_PARAMS = new Set(['strokeWidth', 'rotation', 'size', 'curveIntensity', 'upwardLength', 'length']);
 
 // Static tracking for color logging - only log once per ring grammar
 const loggedRingGrammars = new Set<string>();
@@ -31,7 +41,7 @@ export function logRingStrokeData(p: p5) {
     const firstStroke = Array.from(strokeMap.values())[0];
     
     // Sort strokes by type for consistent output
-    const strokeTypes = ['d', 'h', 'l', 'v', '-'];
+    const strokeTypes = [...listGlyphs().map((glyph) => glyph.symbol), '-'];
     
     for (const strokeType of strokeTypes) {
       if (strokeMap.has(strokeType)) {
@@ -47,14 +57,24 @@ export function logRingStrokeData(p: p5) {
 export class Particle {
   public radius: number;
   public angle: number;
+  public x: number;
+  public y: number;
+  public heading: number; // direction the ring's path runs through the glyph
   public drawShape: DrawShapeFn;
   public isRotated: boolean;
   public baseColor: p5.Color;
   public ringIndex: number;
   public strokeType?: string;
+  public layerIndex: number; // which of the ring's layers the glyph belongs to
+  public slot: number; // position in the ring's layout, for the glyph's random stream
+  public modulations: Record<string, Modulation> = {}; // param key -> modulation, shared by the symbol's glyphs
 
   private geometry: { w: number; h: number };
   private shapeOptions: Record<string, { min: number; max: number; value: number }>;
+  private overrides: Record<string, number>;
+  private orientation: GlyphOrientation;
+  private ringSettings: RingStrokeSettings; // the ring's own stroke settings, over the artwork's
+  private gradientParams: Record<string, number>; // the ring's gradient values, over the sliders
 
   private offsets: number[] = [];
   private saturations: { startAlpha: number; endAlpha: number }[] = [];
@@ -63,6 +83,7 @@ export class Particle {
   constructor(
     radius: number,
     angle: number,
+    divisions: number, // slots around the ring; sets the glyph's footprint
     drawFunc: DrawShapeFn,
     baseColor: p5.Color,
     shapeOptions: Record<string, { min: number; max: number; value: number }>,
@@ -70,6 +91,12 @@ export class Particle {
     ringIndex = 0,
     p: p5,
     strokeType?: string,
+    overrides: Record<string, number> = {},
+    orientation: GlyphOrientation = {},
+    layerIndex = 0,
+    slot = 0,
+    ringSettings: RingStrokeSettings = {},
+    gradientParams: Record<string, number> = {},
   ) {
     this.radius = radius;
     this.angle = angle;
@@ -79,8 +106,17 @@ export class Particle {
     this.ringIndex = ringIndex;
     this.shapeOptions = shapeOptions;
     this.strokeType = strokeType;
+    this.overrides = overrides;
+    this.orientation = orientation;
+    this.layerIndex = layerIndex;
+    this.slot = slot;
+    this.ringSettings = ringSettings;
+    this.gradientParams = gradientParams;
+    this.x = radius * Math.cos(angle);
+    this.y = radius * Math.sin(angle);
+    this.heading = angle + Math.PI / 2;
 
-    const theta = (Math.PI * 2) / DIVISIONS;
+    const theta = (Math.PI * 2) / divisions;
     const diagonal = this.radius * Math.sqrt(2 * (1 - Math.cos(theta)));
     const w = diagonal / Math.sqrt(2);
     const h = w;
@@ -89,11 +125,14 @@ export class Particle {
     this.updateStrokeData(p);
   }
 
+  private strokeSetting(key: RingStrokeSetting): number {
+    return this.ringSettings[key] ?? globals()[key];
+  }
+
   updateStrokeData(p: p5) {
-    const penWidth = Math.max(0.1, this.geometry.w + globals().globalStrokeWidth);
-    const currentGlobals = globals();
+    const penWidth = Math.max(0.1, this.geometry.w + this.strokeSetting('globalStrokeWidth'));
     const currentPalette = palette();
-    const numLinesInNib = Math.max(1, currentGlobals.strokeCount);
+    const numLinesInNib = Math.max(1, this.strokeSetting('strokeCount'));
 
     this.offsets = [];
     this.saturations = [];
@@ -103,7 +142,7 @@ export class Particle {
     let strokeBaseColor = this.baseColor;
     if (this.strokeType) {
       // Use the color assignment system to get the correct color index
-      const colorIndex = getStrokeColorIndex(this.ringIndex, this.strokeType as 'd' | 'h' | 'l' | 'v' | '-');
+      const colorIndex = getStrokeColorIndex(this.ringIndex, this.strokeType, this.layerIndex);
       
       if (colorIndex >= 0 && colorIndex < currentPalette.length) {
         strokeBaseColor = currentPalette[colorIndex];
@@ -135,7 +174,7 @@ export class Particle {
           }
           
           const ringData = ringStrokeData.get(this.ringIndex)!;
-          const colorIndex = getStrokeColorIndex(this.ringIndex, this.strokeType as 'd' | 'h' | 'l' | 'v' | '-');
+          const colorIndex = getStrokeColorIndex(this.ringIndex, this.strokeType, this.layerIndex);
           
           // Store stroke data
           ringData.set(this.strokeType, {
@@ -178,11 +217,13 @@ export class Particle {
     }
 
     for (let i = 0; i < numLinesInNib; i++) {
-      this.offsets.push(p.map(i, 0, numLinesInNib - 1, -penWidth / 2, penWidth / 2));
+      // A single line sits on the center and takes the base color
+      const t = numLinesInNib > 1 ? i / (numLinesInNib - 1) : 0.5;
+      this.offsets.push(p.map(t, 0, 1, -penWidth / 2, penWidth / 2));
 
       // Fix bleed calculation: start with base color and bleed toward adjacent color
       // When colorBleed is 0, use only base color; when colorBleed is 1, use only adjacent color
-      const bleedT = p.map(i, 0, numLinesInNib - 1, 0, currentGlobals.colorBleed);
+      const bleedT = numLinesInNib > 1 ? t * this.strokeSetting('colorBleed') : 0;
       const strokeColor = p.lerpColor(strokeBaseColor, adjacentColor, bleedT) as p5.Color;
       this.colors.push(strokeColor);
 
@@ -192,40 +233,86 @@ export class Particle {
     }
   }
 
-  private getRandomizedValue(p: p5, param: { min: number; max: number; value: number }) {
+  // Restarted on every draw so the glyph's jitter is the same each time for the same seed
+  private createStream(): RandomFn {
+    return createRandom(hashSeed(artworkSeed(), this.ringIndex, this.layerIndex, this.slot));
+  }
+
+  private getRandomizedValue(p: p5, param: { min: number; max: number; value: number }, random: RandomFn) {
     const currentGlobals = globals();
     const randomness = currentGlobals.randomness;
+    const jitter = random(); // drawn even when unused so each parameter keeps its place in the stream
     if (randomness === 0) return param.value;
     const range = param.max - param.min;
-    const randomOffset = (p.random() - 0.5) * range * randomness;
+    const randomOffset = (jitter - 0.5) * range * randomness;
     return p.constrain(param.value + randomOffset, param.min, param.max);
   }
 
+  // Ring-level option, set by the ring's gradient and moved by its modulation at this glyph's angle
+  private modulate(key: string, paramIn: { min: number; max: number; value: number }) {
+    if (!paramIn) return paramIn;
+    const param = withGradient(paramIn, this.gradientParams[key]);
+    const modulation = this.modulations[key];
+    if (!modulation || modulation.amount === 0) return param;
+    const wave = modulationWave(modulation, this.angle, this.radius / WHEEL_DRAW_RADIUS, artworkSeed());
+    return { ...param, value: modulateParam(param, modulation, wave) };
+  }
+
+  // Ring-level option with this instance's grammar override (if any) merged over its value
+  private getParam(key: string) {
+    const param = this.shapeOptions[key];
+    const override = this.overrides[key];
+    if (override === undefined) return this.modulate(key, param);
+    if (!param) return { min: override, max: override, value: override };
+    return { min: Math.min(param.min, override), max: Math.max(param.max, override), value: override };
+  }
+
   private getOptions(p: p5, progress = 1.0) {
+    const random = this.createStream();
+    const curveIntensity = this.getParam('curveIntensity');
+    const upwardLength = this.getParam('upwardLength');
+    const length = this.getParam('length');
+    const rotation = this.getParam('rotation');
+
+    // Parameters only some registered glyphs define are passed through by name
+    const glyphParams: Record<string, number> = {};
+    for (const key of Object.keys({ ...this.shapeOptions, ...this.overrides })) {
+      if (!NAMED_PARAMS.has(key)) glyphParams[key] = this.getRandomizedValue(p, this.getParam(key)!, random);
+    }
+
     return {
+      ...glyphParams,
       w: this.geometry.w,
       h: this.geometry.h,
       offsets: this.offsets,
       saturations: this.saturations,
       colors: this.colors,
       baseColor: this.baseColor,
-      strokeWidth: this.getRandomizedValue(p, this.shapeOptions.strokeWidth),
-      curveIntensity: this.shapeOptions.curveIntensity ? this.getRandomizedValue(p, this.shapeOptions.curveIntensity) : 0,
-      upwardLength: this.shapeOptions.upwardLength ? this.getRandomizedValue(p, this.shapeOptions.upwardLength) : 1.0,
-      length: this.shapeOptions.length ? this.getRandomizedValue(p, this.shapeOptions.length) : 1.0,
-      size: this.getRandomizedValue(p, this.shapeOptions.size),
-      rotation: this.shapeOptions.rotation ? this.getRandomizedValue(p, this.shapeOptions.rotation) + (this.isRotated ? Math.PI : 0) : (this.isRotated ? Math.PI : 0),
+      strokeWidth: this.getRandomizedValue(p, this.getParam('strokeWidth'), random),
+      curveIntensity: curveIntensity ? this.getRandomizedValue(p, curveIntensity, random) : 0,
+      upwardLength: upwardLength ? this.getRandomizedValue(p, upwardLength, random) : 1.0,
+      length: length ? this.getRandomizedValue(p, length, random) : 1.0,
+      size: this.getRandomizedValue(p, this.getParam('size'), random),
+      rotation: rotation ? this.getRandomizedValue(p, rotation, random) + (this.isRotated ? Math.PI : 0) : (this.isRotated ? Math.PI : 0),
       segments: 7,
       progress,
     };
   }
 
+  // Put the glyph on a non-circular path; by default it sits on the circle at its radius and angle
+  place(x: number, y: number, heading: number) {
+    this.x = x;
+    this.y = y;
+    this.heading = heading;
+  }
+
   display(p: p5, progress = 1.0) {
-    const x = this.radius * Math.cos(this.angle);
-    const y = this.radius * Math.sin(this.angle);
     p.push();
-    p.translate(x, y);
-    p.rotate(this.angle + p.HALF_PI + p.QUARTER_PI);
+    p.translate(this.x, this.y);
+    p.rotate(this.heading + p.QUARTER_PI);
+    const { turn, mirror, flip } = this.orientation;
+    if (turn) p.rotate((turn * Math.PI) / 180);
+    if (mirror || flip) p.scale(mirror ? -1 : 1, flip ? -1 : 1);
     this.drawShape(p, this.getOptions(p, progress));
     p.pop();
   }
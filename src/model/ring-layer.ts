@@ -0,0 +1,76 @@
+import type { GrammarItem } from '../core/grammar';
+import type { Modulation } from '../core/modulation';
+import { randomSeed } from '../core/random';
+import type { Particle } from './particle';
+import type { RangeParamMap } from './types';
+
+export type PhaseUnit = 'slots' | 'degrees';
+
+/**
+ * One motif on a ring. A ring draws its layers in order at its shared radius,
+ * divisions, arc and path; each layer has its own grammar, glyph settings,
+ * phase and stroke colors.
+ */
+export class RingLayer {
+  public grammarString = '';
+  public seed = randomSeed(); // drives [..] choices in the grammar
+  public visible = true;
+  public phaseOffset = 0; // rotation of the layer, in phaseUnit
+  public phaseUnit: PhaseUnit = 'slots';
+  public strokeColors: Record<string, number> = {}; // stroke type -> palette color index
+  public isSolid = true;
+  public pattern: GrammarItem[] = [];
+  public shapeOptions: Record<string, RangeParamMap> = {};
+  public modulations: Record<string, Record<string, Modulation>> = {}; // symbol -> param key -> modulation
+  public particles: Particle[] = [];
+
+  getShapeOptionsFor(symbol: string): RangeParamMap | undefined {
+    return this.shapeOptions[symbol];
+  }
+
+  getAvailableSymbols(): string[] {
+    return Object.keys(this.shapeOptions);
+  }
+
+  // Put saved slider values back on the symbols the grammar still uses, once it has been parsed
+  restoreShapeOptions(saved: Record<string, RangeParamMap>) {
+    for (const [symbol, options] of Object.entries(saved)) {
+      const current = this.shapeOptions[symbol];
+      if (!current || !options) continue;
+      for (const [key, param] of Object.entries(options)) {
+        if (current[key] && Number.isFinite(param?.value)) current[key] = { ...current[key], value: param.value };
+      }
+    }
+  }
+
+  // Modulations are kept in place, as the symbol's particles share them
+  restoreModulations(saved: Record<string, Record<string, Modulation>>) {
+    for (const [symbol, modulations] of Object.entries(saved)) {
+      const current = this.modulations[symbol];
+      if (!current || !modulations) continue;
+      for (const [key, modulation] of Object.entries(modulations)) {
+        if (this.shapeOptions[symbol]?.[key]) current[key] = { ...modulation };
+      }
+    }
+  }
+
+  // A copy of the settings; the owning ring rebuilds its particles
+  clone(): RingLayer {
+    const copy = new RingLayer();
+    copy.grammarString = this.grammarString;
+    copy.seed = this.seed;
+    copy.visible = this.visible;
+    copy.phaseOffset = this.phaseOffset;
+    copy.phaseUnit = this.phaseUnit;
+    copy.strokeColors = { ...this.strokeColors };
+    for (const [symbol, options] of Object.entries(this.shapeOptions)) {
+      copy.shapeOptions[symbol] = {};
+      for (const [key, param] of Object.entries(options)) copy.shapeOptions[symbol][key] = { ...param };
+    }
+    for (const [symbol, modulations] of Object.entries(this.modulations)) {
+      copy.modulations[symbol] = {};
+      for (const [key, modulation] of Object.entries(modulations)) copy.modulations[symbol][key] = { ...modulation };
+    }
+    return copy;
+  }
+}
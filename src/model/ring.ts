@@ -1,177 +1,459 @@
 import type p5 from 'p5';
-import { DIVISIONS, MIN_DIVISIONS } from '../core/constants';
-import type { SolidRingData } from './types';
-import { alphabet, parseGrammar } from '../core/grammar';
+import { DIVISIONS, MIN_DIVISIONS, DIVISIONS_RANGE, WHEEL_DRAW_RADIUS, RING_STROKE_SETTINGS, RING_STROKE_SETTING_RANGES } from '../core/constants';
+import type { RingStrokeSetting, RingStrokeSettings, SolidRingData } from './types';
+import { parseGrammar } from '../core/grammar';
+import type { GrammarItem } from '../core/grammar';
 import { Particle } from './particle';
 import { drawSolidRing } from '../core/alphabet/solid-ring';
-import { globals } from '../store/artwork';
+import { globals, grammarMacros } from '../store/artwork';
+import { randomSeed } from '../core/random';
+import { RingLayer } from './ring-layer';
+import type { PhaseUnit } from './ring-layer';
+import { getGlyph, getDefaultGlyphOptions } from '../core/glyph-registry';
+import type { GrammarMacros } from '../core/macros';
+import { DEFAULT_RING_PATH, createRingPathSampler, traceRingPath } from '../core/ring-path';
+import type { RingPath } from '../core/ring-path';
+import { withGradient } from '../core/gradients';
+
+/**
+ * How a pattern fills a ring when its length doesn't divide the divisions:
+ * - truncate: repeat and cut off at the last slot, leaving a seam
+ * - stretch: change the slot count so whole copies tile exactly
+ * - nearest-divisor: pad the pattern with x up to the next divisor
+ * - single-pass: spread one copy evenly around the ring
+ */
+export type PatternFitMode = 'truncate' | 'stretch' | 'nearest-divisor' | 'single-pass';
+
+export type { PhaseUnit };
+
+// A stroke setting kept within its global slider's bounds; stroke counts are whole
+export function clampStrokeSetting(key: RingStrokeSetting, value: number): number {
+  const { min, max } = RING_STROKE_SETTING_RANGES[key];
+  const clamped = Math.min(max, Math.max(min, value));
+  return key === 'strokeCount' ? Math.round(clamped) : clamped;
+}
 
 export class Ring {
-  public radius: number;
+  public radius: number; // in wheel units
+  public radiusOverride: number | null = null; // pinned radius, ignoring the artwork's ring spacing
   public baseColor: p5.Color;
   public ringIndex: number;
   public visible = true;
-  public grammarString = '';
+  public fitMode: PatternFitMode = 'truncate';
+  public divisions: number; // number of angular slots particles are laid out on
+  public arcStart = 0; // degrees clockwise from the ring's phase
+  public arcSweep = 360; // degrees covered by the ring; 360 is a full ring
+  public path: RingPath = { ...DEFAULT_RING_PATH };
+  public layers: RingLayer[] = [new RingLayer()]; // drawn in order; the first is the ring's main grammar
+  public ignoredGradients: string[] = []; // parameters whose artwork gradient this ring doesn't follow
+  public gradientOffsets: Record<string, number> = {}; // added to a gradient's value on this ring
+  public strokeOverrides: RingStrokeSettings = {}; // this ring's own stroke settings, over gradients and globals
   private solidRingData?: SolidRingData;
-  private isSolid = true;
-  private _pattern: { char: 'd' | 'h' | 'l' | 'v' | 'x'; rotated: boolean }[] = [];
-  private shapeOptions: Record<string, Record<string, { min: number; max: number; value: number }>> = {};
-  private particles: Particle[] = [];
-  public strokeColors: Record<string, number> = {}; // stroke type -> palette color index
+  // This ring's own stroke settings, shared with its particles and updated in place
+  private strokeSettings: RingStrokeSettings = {};
+  // Gradient values for glyph sliders on this ring, shared with its particles and updated in place
+  private gradientParams: Record<string, number> = {};
 
   constructor(radius: number, baseColor: p5.Color, ringIndex: number) {
     this.radius = radius;
     this.baseColor = baseColor;
     this.ringIndex = ringIndex;
+    this.divisions = this.drawRadius < 100 ? MIN_DIVISIONS : DIVISIONS;
     this.updateColor(baseColor);
   }
 
   display(p: p5, progress = 1.0) {
     if (!this.visible) return;
-    if (this.isSolid) {
-      if (!this.solidRingData) return;
-      const { radius, width, saturations, baseColor, ringOpacity } = this.solidRingData;
-      const baseStrokeWidth = this.shapeOptions.solid?.strokeWidth?.value ?? 0.1;
-      const strokeWidth = Math.max(0.1, baseStrokeWidth + globals().globalStrokeWidth);
-      
-      drawSolidRing(p, {
-        radius,
-        width,
-        saturations,
-        baseColor,
-        ringOpacity,
-        progress,
-        strokeWidth
-      });
-    } else {
-      for (const particle of this.particles) particle.display(p, progress);
+    for (const layer of this.layers) {
+      if (!layer.visible) continue;
+      if (layer.isSolid) this.displaySolid(p, layer, progress);
+      else for (const particle of layer.particles) particle.display(p, progress);
     }
   }
 
+  private displaySolid(p: p5, layer: RingLayer, progress: number) {
+    if (!this.solidRingData) return;
+    const { radius, width, saturations, baseColor, ringOpacity } = this.solidRingData;
+    const solidWidth = layer.shapeOptions.solid?.strokeWidth;
+    const baseStrokeWidth = solidWidth ? withGradient(solidWidth, this.gradientParams.strokeWidth).value : 0.1;
+    const strokeWidth = Math.max(0.1, baseStrokeWidth + this.strokeSetting('globalStrokeWidth'));
+    const arcStart = this.phaseRadiansOf(layer) + (this.arcStart * Math.PI) / 180;
+    const arcSweep = (this.arcSweep * Math.PI) / 180;
+    const traced = this.path.type !== 'circle';
+
+    drawSolidRing(p, {
+      radius,
+      width,
+      saturations,
+      baseColor,
+      ringOpacity,
+      progress,
+      strokeWidth,
+      // A traced outline is already tilted; a circle's arc turns by the tilt as its glyphs do
+      arcStart: traced ? arcStart : arcStart + (this.path.tilt * Math.PI) / 180,
+      arcSweep,
+      outline: traced ? traceRingPath(this.path, 1, arcStart, arcSweep) : undefined,
+      closed: this.isFullCircle && this.path.type !== 'spiral',
+    });
+  }
+
   updateColor(newColor: p5.Color, p?: p5) {
     this.baseColor = newColor;
-    const theta = (Math.PI * 2) / DIVISIONS;
-    const diagonal = this.radius * Math.sqrt(2 * (1 - Math.cos(theta)));
+    const theta = (Math.PI * 2) / this.divisions;
+    const diagonal = this.drawRadius * Math.sqrt(2 * (1 - Math.cos(theta)));
     const ringWidth = diagonal / Math.sqrt(2);
     const saturations: number[] = [];
     const numSubStrokes = Math.max(1, Math.floor(ringWidth * 2));
     for (let i = 0; i < numSubStrokes; i++) saturations.push(100);
     this.solidRingData = {
-      radius: this.radius,
+      radius: this.drawRadius,
       width: ringWidth,
       saturations,
       baseColor: this.baseColor,
       ringOpacity: 100,
     };
     // Update existing particles base color and recompute stroke data if possible
-    for (const particle of this.particles) {
+    for (const particle of this.allParticles()) {
       particle.baseColor = newColor;
       if (p) particle.updateStrokeData(p);
     }
   }
 
+  // The main layer's grammar and settings, which most of the app works with
+  get grammarString(): string {
+    return this.layers[0].grammarString;
+  }
+
+  get seed(): number {
+    return this.layers[0].seed;
+  }
+
+  set seed(seed: number) {
+    this.layers[0].seed = seed;
+  }
+
+  get phaseOffset(): number {
+    return this.layers[0].phaseOffset;
+  }
+
+  set phaseOffset(offset: number) {
+    this.layers[0].phaseOffset = offset;
+  }
+
+  get phaseUnit(): PhaseUnit {
+    return this.layers[0].phaseUnit;
+  }
+
+  set phaseUnit(unit: PhaseUnit) {
+    this.layers[0].phaseUnit = unit;
+  }
+
+  get strokeColors(): Record<string, number> {
+    return this.layers[0].strokeColors;
+  }
+
+  set strokeColors(colors: Record<string, number>) {
+    this.layers[0].strokeColors = colors;
+  }
+
   get isSolidRing(): boolean {
-    return this.isSolid;
+    return this.layers[0].isSolid;
+  }
+
+  getShapeOptionsFor(symbol: string, layerIndex = 0) {
+    return this.layers[layerIndex]?.getShapeOptionsFor(symbol);
   }
 
-  getShapeOptionsFor(symbol: string) {
-    const options = this.shapeOptions[symbol];
-    return options;
+  getAvailableSymbols(layerIndex = 0): string[] {
+    return this.layers[layerIndex]?.getAvailableSymbols() ?? [];
   }
 
-  getAvailableSymbols(): string[] {
-    return Object.keys(this.shapeOptions);
+  // Radius in the pixels geometry is built at, before the sketch scales to the canvas
+  get drawRadius(): number {
+    return this.radius * WHEEL_DRAW_RADIUS;
   }
 
   get pattern() {
-    return this._pattern;
+    return this.layers[0].pattern;
+  }
+
+  // Phase offset as an angle; a slot is one division of the ring
+  get phaseRadians(): number {
+    return this.phaseRadiansOf(this.layers[0]);
+  }
+
+  private phaseRadiansOf(layer: RingLayer): number {
+    const degrees = layer.phaseUnit === 'slots' ? (layer.phaseOffset * 360) / this.divisions : layer.phaseOffset;
+    return (degrees * Math.PI) / 180;
+  }
+
+  get isFullCircle(): boolean {
+    return this.arcSweep >= 360;
+  }
+
+  // Slots that fall within the arc, each the size of one division
+  get arcSlots(): number {
+    return Math.max(1, Math.round((this.divisions * this.arcSweep) / 360));
+  }
+
+  // Divisions a full ring would need for the layer's slots to be the size they're drawn at;
+  // stretch and single-pass modes change the slot count, the other modes keep `divisions`
+  effectiveDivisions(layerIndex = 0): number {
+    const layer = this.layers[layerIndex];
+    if (!layer || layer.pattern.length === 0) return this.divisions;
+    const { slots } = this.layoutPattern(layer.pattern);
+    return (slots * 360) / this.arcSweep;
+  }
+
+  // True when truncate mode cuts the layer's last repetition short
+  hasSeam(layerIndex = 0): boolean {
+    const length = this.layers[layerIndex]?.pattern.length ?? 0;
+    return this.fitMode === 'truncate' && length > 0 && this.arcSlots % length !== 0;
+  }
+
+  setFitMode(p: p5, fitMode: PatternFitMode) {
+    this.fitMode = fitMode;
+    this.regenerateAll(p);
+  }
+
+  setDivisions(p: p5, divisions: number) {
+    this.divisions = Math.round(Math.min(DIVISIONS_RANGE.max, Math.max(DIVISIONS_RANGE.min, divisions)));
+    this.updateColor(this.baseColor);
+    this.regenerateAll(p);
+  }
+
+  setPhase(p: p5, offset: number, unit?: PhaseUnit, layerIndex = 0) {
+    const layer = this.layers[layerIndex];
+    if (!layer) return;
+    layer.phaseOffset = offset;
+    if (unit) layer.phaseUnit = unit;
+    this.regenerateLayer(p, layerIndex);
+  }
+
+  setArc(p: p5, start: number, sweep: number) {
+    this.arcStart = start;
+    this.arcSweep = Math.min(360, Math.max(1, sweep));
+    this.regenerateAll(p);
+  }
+
+  setPath(p: p5, path: RingPath) {
+    this.path = path;
+    this.regenerateAll(p);
+  }
+
+  // Move the ring to a new radius and position in the ring list, e.g. after rings are added or reordered
+  setPlacement(p: p5, radius: number, ringIndex: number, baseColor: p5.Color) {
+    this.radius = radius;
+    this.ringIndex = ringIndex;
+    this.updateColor(baseColor, p);
+    // Particles hold their radius and ring index, so they're rebuilt rather than updated
+    this.regenerateAll(p);
+  }
+
+  // A new empty layer on top of the others
+  addLayer(p: p5): number {
+    this.layers.push(new RingLayer());
+    const index = this.layers.length - 1;
+    this.setLayerPattern(p, index, '');
+    return index;
+  }
+
+  // The main layer always stays
+  removeLayer(layerIndex: number) {
+    if (layerIndex <= 0 || layerIndex >= this.layers.length) return;
+    this.layers.splice(layerIndex, 1);
+    // Particles carry their layer index for color lookups
+    this.layers.forEach((layer, i) => layer.particles.forEach((particle) => (particle.layerIndex = i)));
+  }
+
+  // A copy with the same layers, layout, shape options and stroke colors
+  clone(p: p5): Ring {
+    const copy = new Ring(this.radius, this.baseColor, this.ringIndex);
+    copy.radiusOverride = this.radiusOverride;
+    copy.visible = this.visible;
+    copy.fitMode = this.fitMode;
+    copy.divisions = this.divisions;
+    copy.arcStart = this.arcStart;
+    copy.arcSweep = this.arcSweep;
+    copy.path = { ...this.path };
+    copy.ignoredGradients = [...this.ignoredGradients];
+    copy.gradientOffsets = { ...this.gradientOffsets };
+    copy.strokeOverrides = { ...this.strokeOverrides };
+    copy.layers = this.layers.map((layer) => layer.clone());
+    copy.updateColor(copy.baseColor);
+    copy.layers.forEach((layer, i) => copy.setLayerPattern(p, i, layer.grammarString));
+    return copy;
+  }
+
+  private allParticles(): Particle[] {
+    return this.layers.flatMap((layer) => layer.particles);
   }
 
   updateParticles(p: p5) {
-    for (const particle of this.particles) {
+    for (const particle of this.allParticles()) {
       particle.updateStrokeData(p);
     }
   }
 
-  applyChanges(p: p5) {
-    if (this.isSolid) {
-      this.updateColor(this.baseColor, p);
-    } else {
-      this.updateParticles(p);
+  // A stroke setting's value on this ring, falling back to the artwork's (applied by applyChanges)
+  strokeSetting(key: RingStrokeSetting): number {
+    return this.strokeSettings[key] ?? globals()[key];
+  }
+
+  /**
+   * Bring the ring up to date before a redraw. `gradientValues` are the
+   * artwork gradients evaluated at this ring (see evaluateGradients); they
+   * take the place of the matching glyph sliders on every layer when drawing,
+   * or set the ring's own stroke settings, unless the ring ignores that
+   * gradient. The sliders keep their own values, which return once the
+   * gradient is gone. The ring's stroke overrides take precedence over both.
+   */
+  applyChanges(p: p5, gradientValues: Record<string, number> = {}) {
+    for (const key of RING_STROKE_SETTINGS) delete this.strokeSettings[key];
+    for (const key of Object.keys(this.gradientParams)) delete this.gradientParams[key];
+    for (const [key, value] of Object.entries(gradientValues)) {
+      if (this.ignoredGradients.includes(key)) continue;
+      const target = value + (this.gradientOffsets[key] ?? 0);
+      if ((RING_STROKE_SETTINGS as string[]).includes(key)) {
+        this.strokeSettings[key as RingStrokeSetting] = clampStrokeSetting(key as RingStrokeSetting, target);
+        continue;
+      }
+      this.gradientParams[key] = target;
     }
+    Object.assign(this.strokeSettings, this.strokeOverrides);
+    this.updateColor(this.baseColor, p);
+  }
+
+  setPattern(p: p5, grammarString: string, macros: GrammarMacros = grammarMacros()) {
+    this.setLayerPattern(p, 0, grammarString, macros);
   }
 
-  setPattern(p: p5, grammarString: string) {
+  setLayerPattern(p: p5, layerIndex: number, grammarString: string, macros: GrammarMacros = grammarMacros()) {
+    const layer = this.layers[layerIndex];
+    if (!layer) return;
     const trimmed = grammarString.trim();
-    this.grammarString = trimmed;
-    this.isSolid = trimmed === '-';
+    layer.grammarString = trimmed;
+    layer.isSolid = trimmed === '-';
     if (trimmed === '') {
-      this._pattern = [];
-      this.shapeOptions = {};
-      this.particles = [];
+      layer.pattern = [];
+      layer.shapeOptions = {};
+      layer.modulations = {};
+      layer.particles = [];
       return;
     }
-    if (this.isSolid) {
-      this._pattern = [];
-      this.shapeOptions = { 
-        solid: { 
+    if (layer.isSolid) {
+      layer.pattern = [];
+      layer.shapeOptions = {
+        solid: {
           strokeWidth: { min: 0.1, max: 2.0, value: 0.1 }
-        } 
-      } as any;
+        }
+      };
+      layer.modulations = {};
       this.updateColor(this.baseColor);
-      this.particles = [];
+      layer.particles = [];
       return;
     }
 
     // Use full parser with repeats and rotation
-    this._pattern = parseGrammar(trimmed) as any;
+    layer.pattern = parseGrammar(trimmed, { seed: layer.seed, macros });
 
     // Preserve existing shape options for symbols that remain in the new pattern
-    const existingShapeOptions = { ...this.shapeOptions };
-    this.shapeOptions = {};
-    const uniqueSymbols = Array.from(new Set(this._pattern.map((it) => it.char))).filter((c) => c !== 'x');
-    
+    const existingShapeOptions = { ...layer.shapeOptions };
+    const existingModulations = { ...layer.modulations };
+    layer.shapeOptions = {};
+    layer.modulations = {};
+    const uniqueSymbols = Array.from(new Set(layer.pattern.map((it) => it.char))).filter((c) => c !== 'x');
+
     for (const symbol of uniqueSymbols) {
       // If this symbol existed before, preserve its options
       if (existingShapeOptions[symbol]) {
-        this.shapeOptions[symbol] = existingShapeOptions[symbol];
+        layer.shapeOptions[symbol] = existingShapeOptions[symbol];
       } else {
         // Only create defaults for new symbols
-        this.shapeOptions[symbol] = this.getDefaultShapeOptions(symbol);
+        layer.shapeOptions[symbol] = getDefaultGlyphOptions(symbol);
       }
+      layer.modulations[symbol] = existingModulations[symbol] ?? {};
     }
-    this.regenerateParticles(p);
+    this.regenerateLayer(p, layerIndex);
+  }
+
+  // Re-expand every layer's grammar, e.g. after macros or custom glyphs change
+  reparse(p: p5) {
+    this.layers.forEach((layer, i) => {
+      if (!layer.isSolid && layer.grammarString !== '') this.setLayerPattern(p, i, layer.grammarString);
+    });
   }
 
-  private getDefaultShapeOptions(symbol: string) {
-    const options: Record<string, { min: number; max: number; value: number }> = {
-      strokeWidth: { min: 0.1, max: 2.0, value: 0.3 },
-      rotation: { min: 0, max: Math.PI, value: 0 },
-      size: { min: 0.5, max: 2.0, value: 1.0 },
+  // Pick a new seed and re-expand the grammar; only matters for grammars with [..] choices
+  reroll(p: p5, layerIndex = 0) {
+    const layer = this.layers[layerIndex];
+    if (!layer) return;
+    layer.seed = randomSeed();
+    this.setLayerPattern(p, layerIndex, layer.grammarString);
+  }
+
+  // The symbol in each slot and how many slots the arc is cut into, per fit mode
+  private layoutPattern(pattern: GrammarItem[]): { sequence: GrammarItem[]; slots: number } {
+    const divisions = this.arcSlots;
+    const length = pattern.length;
+    if (length === 0) return { sequence: [], slots: divisions };
+
+    const repeat = (items: GrammarItem[], slots: number) => {
+      const sequence: GrammarItem[] = [];
+      while (sequence.length < slots) sequence.push(...items);
+      return sequence.slice(0, slots);
     };
-    if (symbol === 'd') options.length = { min: 1, max: 3.0, value: 2.0 } as any;
-    if (symbol === 'h' || symbol === 'v') options.curveIntensity = { min: -0.5, max: 1.5, value: 1 } as any;
-    if (symbol === 'l') options.upwardLength = { min: 1.5, max: 3.0, value: 2.0 } as any;
-    return options;
-  }
-
-  private regenerateParticles(p: p5) {
-    this.particles = [];
-    const divisions = this.radius < 100 ? MIN_DIVISIONS : DIVISIONS;
-    let sequence: { char: string; rotated: boolean }[] = [];
-    if (this._pattern && this._pattern.length > 0) {
-      while (sequence.length < divisions) sequence.push(...this._pattern);
+
+    switch (this.fitMode) {
+      case 'stretch': {
+        const slots = length * Math.max(1, Math.round(divisions / length));
+        return { sequence: repeat(pattern, slots), slots };
+      }
+      case 'nearest-divisor': {
+        let padded = length;
+        while (padded < divisions && divisions % padded !== 0) padded++;
+        const gap: GrammarItem = { char: 'x', rotated: false };
+        const padding = Array.from({ length: padded - length }, () => gap);
+        return { sequence: repeat([...pattern, ...padding], divisions), slots: divisions };
+      }
+      case 'single-pass':
+        return { sequence: pattern, slots: length };
+      case 'truncate':
+      default:
+        return { sequence: repeat(pattern, divisions), slots: divisions };
     }
-    sequence = sequence.slice(0, divisions);
-    for (let i = 0; i < divisions; i++) {
+  }
+
+  private regenerateAll(p: p5) {
+    this.layers.forEach((_, i) => this.regenerateLayer(p, i));
+  }
+
+  private regenerateLayer(p: p5, layerIndex: number) {
+    const layer = this.layers[layerIndex];
+    if (!layer || layer.isSolid || layer.pattern.length === 0) return;
+    layer.particles = [];
+    const { sequence, slots } = this.layoutPattern(layer.pattern);
+    const start = this.phaseRadiansOf(layer) + (this.arcStart * Math.PI) / 180;
+    const step = (this.arcSweep * Math.PI) / 180 / slots;
+    // A full ring starts on its first slot; an arc centers each slot so both ends are even
+    const first = this.isFullCircle ? 0 : 0.5;
+    const sampler = createRingPathSampler(this.path, this.drawRadius);
+    // Glyphs are sized from the radius of a circle as long as the path
+    const sizeRadius = sampler.length / (Math.PI * 2);
+    const turn = this.path.align === 'normal' ? -Math.PI / 2 : 0;
+    // Size each glyph for the slots it is actually laid out on
+    const divisions = (slots * 360) / this.arcSweep;
+    for (let i = 0; i < slots; i++) {
       const symbolData = sequence[i];
       if (!symbolData || symbolData.char === 'x') continue;
-      const drawFunc = (alphabet as any)[symbolData.char];
+      const drawFunc = getGlyph(symbolData.char)?.draw;
       if (!drawFunc) continue;
-      const angle = (i / divisions) * Math.PI * 2;
-      this.particles.push(
-        new Particle(this.radius, angle, drawFunc, this.baseColor, this.shapeOptions[symbolData.char], symbolData.rotated, this.ringIndex, p, symbolData.char),
-      );
+      const angle = start + (i + first) * step;
+      const particle = new Particle(sizeRadius, angle, divisions, drawFunc, this.baseColor, layer.shapeOptions[symbolData.char], symbolData.rotated, this.ringIndex, p, symbolData.char, symbolData.overrides, symbolData, layerIndex, i, this.strokeSettings, this.gradientParams);
+      particle.modulations = layer.modulations[symbolData.char] ?? {};
+      const point = sampler.pointAt(angle);
+      particle.place(point.x, point.y, point.heading + turn);
+      layer.particles.push(particle);
     }
   }
 
@@ -185,9 +467,9 @@ export class Ring {
     return this.baseColor;
   }
 
-  // Update particles when stroke colors change
-  updateParticlesForStrokeType(strokeType: string, p: p5) {
-    this.particles.forEach(particle => {
+  // Update a layer's particles when its stroke colors change
+  updateParticlesForStrokeType(strokeType: string, p: p5, layerIndex = 0) {
+    this.layers[layerIndex]?.particles.forEach(particle => {
       if (particle.strokeType === strokeType) {
         particle.updateStrokeData(p);
       }
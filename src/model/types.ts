@@ -1,6 +1,7 @@
 import type p5 from 'p5';
 
-export type StrokeName = 'd' | 'h' | 'l' | 'v' | 'solid' | 'x';
+// A registered glyph symbol (see core/glyph-registry), '-' or 'solid' for solid rings, or 'x'
+export type StrokeName = string;
 
 export interface RangeParam {
   min: number;
@@ -10,6 +11,10 @@ export interface RangeParam {
 
 export type RangeParamMap = Record<string, RangeParam>;
 
+// Artwork-wide stroke settings a ring can have its own value for
+export type RingStrokeSetting = 'strokeCount' | 'colorBleed' | 'globalStrokeWidth';
+export type RingStrokeSettings = Partial<Record<RingStrokeSetting, number>>;
+
 export interface StrokeOptionsBase {
   strokeWidth: RangeParam;
   rotation: RangeParam; // radians
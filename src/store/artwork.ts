@@ -1,10 +1,28 @@
 import { createSignal, createMemo, createEffect } from 'solid-js';
 import type p5 from 'p5';
-import { Ring } from '../model/ring';
+import { Ring, clampStrokeSetting } from '../model/ring';
+import type { PatternFitMode, PhaseUnit } from '../model/ring';
+import type { RingStrokeSetting, StrokeName } from '../model/types';
 import { generatePalette, logPaletteColors } from '../core/color';
-import { defaultGrammars } from '../core/constants';
+import { defaultGrammars, RING_COUNT_RANGE } from '../core/constants';
+import { findMacroReferences } from '../core/macros';
+import type { GrammarMacros } from '../core/macros';
+import { replaceCustomGlyphs } from '../core/custom-glyphs';
+import type { CustomGlyph } from '../core/custom-glyphs';
+import { defaultLSystem, generateLSystem } from '../core/lsystem';
+import type { LSystemState } from '../core/lsystem';
+import { generateCellularAutomaton } from '../core/cellular-automaton';
+import type { CellularAutomatonOptions } from '../core/cellular-automaton';
+import { computeSpacedRadii, DEFAULT_EASING } from '../core/ring-spacing';
+import type { RingSpacing } from '../core/ring-spacing';
+import type { RingPath } from '../core/ring-path';
+import type { Modulation } from '../core/modulation';
+import { evaluateGradients } from '../core/gradients';
+import type { ParamGradient } from '../core/gradients';
+import { randomSeed } from '../core/random';
 import { clearLoggedGrammars, logRingStrokeData } from '../model/particle';
 import { autosaveService } from './autosave';
+import { trackEvent, AnalyticsEvents } from '../utils/analytics';
 
 // Types
 export interface GlobalsState {
@@ -51,6 +69,12 @@ export interface ArtworkState {
   hasChanges: boolean;
   backgroundColor: p5.Color | null;
   colorLock: ColorLockState;
+  macros: GrammarMacros;
+  glyphs: CustomGlyph[];
+  lSystem: LSystemState;
+  ringSpacing: RingSpacing;
+  seed: number;
+  gradients: ParamGradient[];
 }
 
 // Solid.js Signals
@@ -92,6 +116,25 @@ export const [colorAssignment, setColorAssignment] = createSignal<ColorAssignmen
   customAssignments: {},
 });
 
+export const [grammarMacros, setGrammarMacros] = createSignal<GrammarMacros>({});
+
+export const [customGlyphs, setCustomGlyphs] = createSignal<CustomGlyph[]>([]);
+
+export const [lSystem, setLSystem] = createSignal<LSystemState>(defaultLSystem());
+
+export const [ringSpacing, setRingSpacing] = createSignal<RingSpacing>({
+  mode: 'linear',
+  innerRadius: 0.125,
+  outerRadius: 0.85,
+  easing: [...DEFAULT_EASING],
+});
+
+// Seeds each glyph's own random stream, so randomness jitter is the same on every redraw
+export const [artworkSeed, setArtworkSeed] = createSignal(randomSeed());
+
+// Parameter gradients from the inner to the outer ring, applied in order
+export const [paramGradients, setParamGradients] = createSignal<ParamGradient[]>([]);
+
 export const [colorLock, setColorLock] = createSignal<ColorLockState>({
   lockedColors: [false, false, false, false], // Initially all colors unlocked
   customColors: [null, null, null, null], // No custom colors initially
@@ -116,11 +159,14 @@ export const updateRing = (index: number, updates: Partial<Ring>) => {
   setHasChanges(true);
 };
 
-export const updateRingPattern = (index: number, pattern: string, p: p5) => {
+export const updateRingPattern = (index: number, pattern: string, p: p5, layerIndex = 0) => {
   const currentRings = rings();
   const ring = currentRings[index];
   
-  if (pattern === '') {
+  // An empty extra layer just draws nothing; an empty main grammar hides the ring
+  if (layerIndex > 0) {
+    ring.setLayerPattern(p, layerIndex, pattern);
+  } else if (pattern === '') {
     ring.visible = false;
     ring.setPattern(p, '');
   } else {
@@ -133,12 +179,380 @@ export const updateRingPattern = (index: number, pattern: string, p: p5) => {
   setHasChanges(true);
 };
 
+export const rerollRing = (index: number, p: p5, layerIndex = 0) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return;
+
+  ring.reroll(p, layerIndex);
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+export const setRingFitMode = (index: number, fitMode: PatternFitMode, p: p5) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return;
+
+  ring.setFitMode(p, fitMode);
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+export const setRingDivisions = (index: number, divisions: number, p: p5) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return;
+
+  ring.setDivisions(p, divisions);
+  // L-system generations are cut to each ring's divisions
+  if (lSystem().enabled) applyLSystem(p);
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+export const setRingPhase = (index: number, offset: number, unit: PhaseUnit, p: p5, layerIndex = 0) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return;
+
+  ring.setPhase(p, offset, unit, layerIndex);
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+// Returns the new layer's index
+export const addRingLayer = (index: number, p: p5): number | null => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return null;
+
+  const layerIndex = ring.addLayer(p);
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+  return layerIndex;
+};
+
+export const removeRingLayer = (index: number, layerIndex: number) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return;
+
+  ring.removeLayer(layerIndex);
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+export const setRingLayerVisible = (index: number, layerIndex: number, visible: boolean) => {
+  const currentRings = rings();
+  const layer = currentRings[index]?.layers[layerIndex];
+  if (!layer) return;
+
+  layer.visible = visible;
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+// Pass null to stop modulating the parameter
+export const setRingModulation = (
+  index: number,
+  layerIndex: number,
+  symbol: string,
+  paramKey: string,
+  modulation: Modulation | null
+) => {
+  const currentRings = rings();
+  const modulations = currentRings[index]?.layers[layerIndex]?.modulations[symbol];
+  if (!modulations) return;
+
+  // Edited in place: the symbol's particles hold this object
+  if (modulation) modulations[paramKey] = { ...modulation };
+  else delete modulations[paramKey];
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+export const addParamGradient = (gradient: ParamGradient) => {
+  setParamGradients([...paramGradients(), { ...gradient }]);
+  setHasChanges(true);
+};
+
+export const updateParamGradient = (index: number, updates: Partial<ParamGradient>) => {
+  setParamGradients(paramGradients().map((gradient, i) => (i === index ? { ...gradient, ...updates } : gradient)));
+  setHasChanges(true);
+};
+
+export const removeParamGradient = (index: number) => {
+  setParamGradients(paramGradients().filter((_, i) => i !== index));
+  setHasChanges(true);
+};
+
+// Whether a ring follows the gradient on `param`, and its offset from the gradient's value
+export const setRingGradient = (index: number, param: string, updates: { follow?: boolean; offset?: number }) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return;
+
+  if (updates.follow !== undefined) {
+    const ignored = ring.ignoredGradients.filter((key) => key !== param);
+    ring.ignoredGradients = updates.follow ? ignored : [...ignored, param];
+  }
+  if (updates.offset !== undefined) {
+    const offsets = { ...ring.gradientOffsets };
+    if (updates.offset === 0) delete offsets[param];
+    else offsets[param] = updates.offset;
+    ring.gradientOffsets = offsets;
+  }
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+// Give a ring its own stroke count, color bleed or stroke width, or pass null to use the global one
+export const setRingStrokeOverride = (index: number, key: RingStrokeSetting, value: number | null) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return;
+
+  const overrides = { ...ring.strokeOverrides };
+  if (value === null) delete overrides[key];
+  else overrides[key] = clampStrokeSetting(key, value);
+  ring.strokeOverrides = overrides;
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+// Apply the gradients to every ring and refresh its particles' stroke data, before a redraw
+export const applyRingChanges = (p: p5) => {
+  const currentRings = rings();
+  const currentGradients = paramGradients();
+  const radii = currentRings.map((ring) => ring.radius);
+  currentRings.forEach((ring, i) => ring.applyChanges(p, evaluateGradients(currentGradients, radii, i)));
+};
+
+export const setRingArc = (index: number, start: number, sweep: number, p: p5) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return;
+
+  ring.setArc(p, start, sweep);
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+export const setRingPath = (index: number, updates: Partial<RingPath>, p: p5) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return;
+
+  ring.setPath(p, { ...ring.path, ...updates });
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+// Ring radii from the spacing mode, with each ring's own radius override taking precedence
+const layoutRings = (currentRings: Ring[], p: p5) => {
+  const currentPalette = palette();
+  const radii = computeSpacedRadii(currentRings.length, ringSpacing());
+  currentRings.forEach((ring, i) =>
+    ring.setPlacement(p, ring.radiusOverride ?? radii[i], i, currentPalette[i % currentPalette.length])
+  );
+};
+
+/**
+ * Commit a new ring list, inner to outer. `sources[i]` is the old index of
+ * the ring now at i (null for a new ring), so per-ring color assignments
+ * follow their rings; radii, ring indices and palette colors are recomputed.
+ */
+const applyRingOrder = (nextRings: Ring[], sources: Array<number | null>, p: p5) => {
+  // Remap first: rebuilt particles look their colors up by the new ring index
+  const current = colorAssignment();
+  const customAssignments: Record<string, Record<string, number>> = {};
+  sources.forEach((source, i) => {
+    const assigned = source === null ? undefined : current.customAssignments[source.toString()];
+    if (assigned) customAssignments[i.toString()] = { ...assigned };
+  });
+  setColorAssignment({ ...current, customAssignments });
+
+  layoutRings(nextRings, p);
+  setRingsOriginal(nextRings);
+  // Ring i takes generation i, so the generations move with the ring count
+  if (lSystem().enabled) applyLSystem(p);
+  setHasChanges(true);
+};
+
+// Add an empty ring at `index`, pushing that ring and those outside it outwards
+export const insertRing = (index: number, p: p5) => {
+  const currentRings = rings();
+  if (currentRings.length >= RING_COUNT_RANGE.max) return;
+  const at = Math.max(0, Math.min(currentRings.length, index));
+
+  // Built at its final radius so its default division count suits it
+  const ring = new Ring(computeSpacedRadii(currentRings.length + 1, ringSpacing())[at], palette()[0], at);
+  ring.setPattern(p, '');
+  const nextRings = [...currentRings.slice(0, at), ring, ...currentRings.slice(at)];
+  const sources = nextRings.map((r) => (r === ring ? null : currentRings.indexOf(r)));
+  applyRingOrder(nextRings, sources, p);
+  trackEvent(AnalyticsEvents.RING_ADDED, { count: nextRings.length });
+};
+
+// Copy a ring with all its settings, placing the copy just outside it
+export const duplicateRing = (index: number, p: p5) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring || currentRings.length >= RING_COUNT_RANGE.max) return;
+
+  const copy = ring.clone(p);
+  const nextRings = [...currentRings.slice(0, index + 1), copy, ...currentRings.slice(index + 1)];
+  const sources = nextRings.map((r) => (r === copy ? index : currentRings.indexOf(r)));
+  applyRingOrder(nextRings, sources, p);
+  trackEvent(AnalyticsEvents.RING_ADDED, { count: nextRings.length, duplicate: true });
+};
+
+export const removeRing = (index: number, p: p5) => {
+  const currentRings = rings();
+  if (!currentRings[index] || currentRings.length <= RING_COUNT_RANGE.min) return;
+
+  const nextRings = currentRings.filter((_, i) => i !== index);
+  applyRingOrder(nextRings, nextRings.map((r) => currentRings.indexOf(r)), p);
+  trackEvent(AnalyticsEvents.RING_REMOVED, { count: nextRings.length });
+};
+
+// Move the ring at `from` so it ends up at index `to`
+export const moveRing = (from: number, to: number, p: p5) => {
+  const currentRings = rings();
+  const ring = currentRings[from];
+  if (!ring || from === to || to < 0 || to >= currentRings.length) return;
+
+  const nextRings = currentRings.filter((_, i) => i !== from);
+  nextRings.splice(to, 0, ring);
+  applyRingOrder(nextRings, nextRings.map((r) => currentRings.indexOf(r)), p);
+};
+
+export const updateRingSpacing = (updates: Partial<RingSpacing>, p: p5) => {
+  setRingSpacing({ ...ringSpacing(), ...updates });
+  const currentRings = rings();
+  layoutRings(currentRings, p);
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+// Pin a ring at its own radius, or pass null to return it to the spacing mode
+export const setRingRadius = (index: number, radius: number | null, p: p5) => {
+  const currentRings = rings();
+  const ring = currentRings[index];
+  if (!ring) return;
+
+  ring.radiusOverride = radius === null ? null : Math.max(0.01, radius);
+  // Only this ring moves, so the others keep their particles (this runs on every slider step)
+  const spaced = computeSpacedRadii(currentRings.length, ringSpacing())[index];
+  ring.setPlacement(p, ring.radiusOverride ?? spaced, index, ring.baseColor);
+
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
+
+// Re-expand every ring layer whose grammar uses one of `names`, directly or through another macro
+const reapplyMacroUsers = (names: string[], previous: GrammarMacros, p: p5) => {
+  const currentRings = rings();
+  const current = grammarMacros();
+  currentRings.forEach((ring) => {
+    ring.layers.forEach((layer, i) => {
+      if (layer.isSolid || layer.grammarString === '') return;
+      const used = new Set([
+        ...findMacroReferences(layer.grammarString, previous),
+        ...findMacroReferences(layer.grammarString, current),
+      ]);
+      if (names.some((name) => used.has(name))) {
+        ring.setLayerPattern(p, i, layer.grammarString);
+      }
+    });
+  });
+  setRingsOriginal([...currentRings]);
+};
+
+export const setGrammarMacro = (name: string, body: string, p: p5) => {
+  const previous = grammarMacros();
+  setGrammarMacros({ ...previous, [name]: body.trim() });
+  reapplyMacroUsers([name], previous, p);
+  setHasChanges(true);
+};
+
+export const removeGrammarMacro = (name: string, p: p5) => {
+  const previous = grammarMacros();
+  const next = { ...previous };
+  delete next[name];
+  setGrammarMacros(next);
+  reapplyMacroUsers([name], previous, p);
+  setHasChanges(true);
+};
+
+// Re-parse every patterned ring layer: a glyph letter may be used directly or through a macro
+const reapplyGlyphUsers = (p: p5) => {
+  const currentRings = rings();
+  currentRings.forEach((ring) => ring.reparse(p));
+  setRingsOriginal([...currentRings]);
+};
+
+// Add a custom glyph or replace the one with the same symbol; callers validate first
+export const setCustomGlyph = (glyph: CustomGlyph, p: p5) => {
+  const next = [...customGlyphs().filter((g) => g.symbol !== glyph.symbol), glyph];
+  setCustomGlyphs(next);
+  replaceCustomGlyphs(next);
+  reapplyGlyphUsers(p);
+  setHasChanges(true);
+};
+
+export const removeCustomGlyph = (symbol: string, p: p5) => {
+  const next = customGlyphs().filter((g) => g.symbol !== symbol);
+  setCustomGlyphs(next);
+  replaceCustomGlyphs(next);
+  reapplyGlyphUsers(p);
+  setHasChanges(true);
+};
+
+// Ring i takes generation i of the L-system, cut to the ring's divisions
+const applyLSystem = (p: p5) => {
+  const { axiom, rules } = lSystem();
+  const currentRings = rings();
+  const generations = generateLSystem(axiom, rules, currentRings.length);
+  currentRings.forEach((ring, i) => {
+    const grammar = generations[i].slice(0, ring.divisions);
+    ring.setPattern(p, grammar);
+    ring.visible = grammar !== '';
+  });
+  setRingsOriginal([...currentRings]);
+};
+
+export const updateLSystem = (updates: Partial<LSystemState>, p: p5) => {
+  setLSystem({ ...lSystem(), ...updates });
+  if (lSystem().enabled) applyLSystem(p);
+  setHasChanges(true);
+};
+
 export const updateGlobalSetting = (key: keyof GlobalsState, value: number) => {
   const current = globals();
   setGlobals({ ...current, [key]: value });
   setHasChanges(true);
 };
 
+// A new artwork seed; with randomness above 0 every glyph gets new jitter
+export const reseedArtwork = (seed: number = randomSeed()) => {
+  setArtworkSeed(seed >>> 0);
+  setHasChanges(true);
+};
+
 export const updateInnerDot = (updates: Partial<InnerDotState>) => {
   const current = innerDot();
   setInnerDot({ ...current, ...updates });
@@ -181,11 +595,13 @@ export const updateBackgroundColor = (h: number, s: number, b: number, p: p5) =>
 
 // Color assignment functions
 // Simplified color assignment - just use palette colors directly
-export const getStrokeColorIndex = (ringIndex: number, strokeType: 'd' | 'h' | 'l' | 'v' | '-'): number => {
+export const getStrokeColorIndex = (ringIndex: number, strokeType: StrokeName, layerIndex = 0): number => {
   const assignment = colorAssignment();
   
-  // Check if there's a custom assignment for this specific ring/stroke
-  const custom = assignment.customAssignments[ringIndex.toString()]?.[strokeType];
+  // Check if there's a custom assignment for this specific ring/stroke; extra layers keep their own
+  const custom = layerIndex > 0
+    ? rings()[ringIndex]?.layers[layerIndex]?.strokeColors[strokeType]
+    : assignment.customAssignments[ringIndex.toString()]?.[strokeType];
   if (custom !== undefined) {
     return custom;
   }
@@ -195,8 +611,19 @@ export const getStrokeColorIndex = (ringIndex: number, strokeType: 'd' | 'h' | '
   return defaultIndex;
 };
 
-export const setStrokeColorAssignment = (ringIndex: number, strokeType: 'd' | 'h' | 'l' | 'v' | '-', colorIndex: number) => {
-  
+export const setStrokeColorAssignment = (ringIndex: number, strokeType: StrokeName, colorIndex: number, layerIndex = 0) => {
+  // Extra layers' colors live on the layer, so they move with the ring
+  if (layerIndex > 0) {
+    const currentRings = rings();
+    const layer = currentRings[ringIndex]?.layers[layerIndex];
+    if (!layer) return;
+    layer.strokeColors[strokeType] = colorIndex;
+    if (p5Instance) currentRings[ringIndex].updateParticlesForStrokeType(strokeType, p5Instance, layerIndex);
+    setRingsOriginal([...currentRings]);
+    setHasChanges(true);
+    return;
+  }
+
   const current = colorAssignment();
   const newCustomAssignments = { ...current.customAssignments };
   
@@ -234,7 +661,7 @@ export const setStrokeColorAssignment = (ringIndex: number, strokeType: 'd' | 'h
   setHasChanges(true);
 };
 
-export const clearStrokeColorAssignment = (ringIndex: number, strokeType: 'd' | 'h' | 'l' | 'v' | '-') => {
+export const clearStrokeColorAssignment = (ringIndex: number, strokeType: StrokeName) => {
   const current = colorAssignment();
   const newCustomAssignments = { ...current.customAssignments };
   
@@ -331,6 +758,12 @@ const getCurrentArtworkState = (): ArtworkState => ({
   hasChanges: hasChanges(),
   backgroundColor: backgroundColor() || null,
   colorLock: colorLock(),
+  macros: grammarMacros(),
+  glyphs: customGlyphs(),
+  lSystem: lSystem(),
+  ringSpacing: ringSpacing(),
+  seed: artworkSeed(),
+  gradients: paramGradients(),
 });
 
 // Autosave effect - triggers when hasChanges becomes true
@@ -350,6 +783,12 @@ export const loadFromAutosave = (p: p5): boolean => {
     if (savedState.palette) setPalette(savedState.palette);
     if (savedState.backgroundColor) setBackgroundColor(savedState.backgroundColor);
     if (savedState.colorLock) setColorLock(savedState.colorLock);
+    setGrammarMacros(savedState.macros ?? {});
+    setCustomGlyphs(savedState.glyphs ?? []);
+    setLSystem(savedState.lSystem ?? defaultLSystem());
+    if (savedState.ringSpacing) setRingSpacing(savedState.ringSpacing);
+    if (savedState.seed !== undefined) setArtworkSeed(savedState.seed);
+    setParamGradients(savedState.gradients ?? []);
     if (savedState.globals) setGlobals(savedState.globals);
     if (savedState.guidesVisible !== undefined) setGuidesVisible(savedState.guidesVisible);
     
@@ -358,14 +797,7 @@ export const loadFromAutosave = (p: p5): boolean => {
     if (savedState.innerDot) setInnerDot(savedState.innerDot);
     
     // Update particles to use the new palette
-    if (savedState.rings) {
-      const currentRings = rings();
-      currentRings.forEach(ring => {
-        if (!ring.isSolidRing) {
-          ring.updateParticles(p);
-        }
-      });
-    }
+    if (savedState.rings) applyRingChanges(p);
     
     setHasChanges(false);
     autosaveService.clearRecoveryFlag();
@@ -403,9 +835,8 @@ export const initializeArtwork = (p: p5) => {
   clearLoggedGrammars();
   
   const numRings = 10;
-  const maxRadius = Math.min(p.width, p.height) / 2 * 0.85;
-  const minRadius = 50;
 
+  setArtworkSeed(randomSeed());
   p.noiseSeed(p.random(1000));
   p.colorMode(p.HSB, 360, 100, 100);
   const newPalette = generatePalette(p);
@@ -414,9 +845,13 @@ export const initializeArtwork = (p: p5) => {
   // Log the generated palette colors
   logPaletteColors(p, newPalette);
 
+  // Keep the chosen spacing curve, but start from the default extent
+  setRingSpacing({ ...ringSpacing(), innerRadius: 0.125, outerRadius: 0.85 });
+
   const newRings: Ring[] = [];
+  const radii = computeSpacedRadii(numRings, ringSpacing());
   for (let i = 0; i < numRings; i++) {
-    const r = p.map(i, 0, numRings - 1, minRadius, maxRadius);
+    const r = radii[i];
     const c = newPalette[i % newPalette.length] as p5.Color;
     const ring = new Ring(r, c, i);
     newRings.push(ring);
@@ -444,7 +879,7 @@ export const initializeArtwork = (p: p5) => {
   const innermostRing = newRings[newRings.length - 1];
   setInnerDot({
     visible: p.random() > 0.5,
-    radius: p.random(10, innermostRing.radius * 0.8),
+    radius: p.random(0.025, innermostRing.radius * 0.8),
     color1Index: Math.floor(p.random(4)),
     color2Index: Math.floor(p.random(4)),
     gradientStop: p.random(0.3, 0.7),
@@ -459,3 +894,18 @@ export const randomizeArtwork = (p: p5) => {
   clearLoggedGrammars(); // Clear any existing logged data
   initializeArtwork(p);
 };
+
+// Fill every ring from an elementary cellular automaton, innermost ring as the seed row
+export const generateCellularAutomatonArtwork = (options: CellularAutomatonOptions, p: p5) => {
+  // The automaton replaces every grammar, so an L-system would only fight it
+  if (lSystem().enabled) setLSystem({ ...lSystem(), enabled: false });
+
+  const currentRings = rings();
+  const grammars = generateCellularAutomaton(currentRings.map((ring) => ring.divisions), options);
+  currentRings.forEach((ring, i) => {
+    ring.setPattern(p, grammars[i]);
+    ring.visible = true;
+  });
+  setRingsOriginal([...currentRings]);
+  setHasChanges(true);
+};
@@ -1,6 +1,20 @@
 import type p5 from 'p5';
 import { ArtworkState, getP5Instance } from './artwork';
 import { Ring } from '../model/ring';
+import type { PatternFitMode, PhaseUnit } from '../model/ring';
+import type { GrammarMacros } from '../core/macros';
+import { replaceCustomGlyphs } from '../core/custom-glyphs';
+import type { CustomGlyph } from '../core/custom-glyphs';
+import type { LSystemState } from '../core/lsystem';
+import { inferRingSpacing } from '../core/ring-spacing';
+import { ARTWORK_FORMAT_VERSION, migrateArtwork } from './migrations';
+import { deserializeLayers, serializeLayer, serializeModulations, serializeShapeOptions } from './ring-serialization';
+import type { SerializedModulations, SerializedRingLayer, SerializedShapeOptions } from './ring-serialization';
+import { DEFAULT_RING_PATH } from '../core/ring-path';
+import type { RingPath } from '../core/ring-path';
+import type { ParamGradient } from '../core/gradients';
+import type { RingStrokeSettings } from '../model/types';
+import type { RingSpacing } from '../core/ring-spacing';
 import { saveSlotService } from './saveSlots';
 
 // Efficient serialization format for artwork state
@@ -23,6 +37,12 @@ export interface SerializedArtwork {
     colorBleed: number;
   };
   guidesVisible: boolean;
+  macros?: GrammarMacros; // absent in saves made before grammar macros existed
+  glyphs?: CustomGlyph[]; // absent in saves made before custom glyphs existed
+  lSystem?: LSystemState;
+  ringSpacing?: RingSpacing; // absent in saves made before spacing modes existed
+  seed?: number; // absent in saves made before glyph jitter was seeded
+  gradients?: ParamGradient[];
 }
 
 export interface SerializedRing {
@@ -30,9 +50,23 @@ export interface SerializedRing {
   ringIndex: number;
   visible: boolean;
   grammarString: string;
+  seed?: number; // absent in saves made before grammar choices existed
+  fitMode?: PatternFitMode; // absent means truncate
+  divisions?: number; // absent means the default for the ring's radius
+  phaseOffset?: number;
+  phaseUnit?: PhaseUnit;
+  arcStart?: number;
+  arcSweep?: number;
+  path?: RingPath;
+  radiusOverride?: number;
+  ignoredGradients?: string[];
+  gradientOffsets?: Record<string, number>;
+  strokeOverrides?: RingStrokeSettings; // stroke count, color bleed and stroke width set on this ring
   isSolid: boolean;
   baseColor: SerializedColor;
-  shapeOptions: Record<string, Record<string, { min: number; max: number; value: number }>>;
+  shapeOptions: SerializedShapeOptions;
+  modulations?: SerializedModulations;
+  layers?: SerializedRingLayer[]; // layers after the main one, which is stored on the ring itself
 }
 
 export interface SerializedColor {
@@ -93,32 +127,50 @@ class AutosaveService {
       ringIndex: ring.ringIndex,
       visible: ring.visible,
       grammarString: ring.grammarString,
+      seed: ring.seed,
+      fitMode: ring.fitMode,
+      divisions: ring.divisions,
+      phaseOffset: ring.phaseOffset,
+      phaseUnit: ring.phaseUnit,
+      arcStart: ring.arcStart,
+      arcSweep: ring.arcSweep,
+      path: { ...ring.path },
+      radiusOverride: ring.radiusOverride ?? undefined,
+      ignoredGradients: ring.ignoredGradients.length > 0 ? [...ring.ignoredGradients] : undefined,
+      gradientOffsets: Object.keys(ring.gradientOffsets).length > 0 ? { ...ring.gradientOffsets } : undefined,
+      strokeOverrides: Object.keys(ring.strokeOverrides).length > 0 ? { ...ring.strokeOverrides } : undefined,
       isSolid: ring.isSolidRing,
       baseColor: this.serializeColor(ring.baseColor),
-      shapeOptions: ring.getShapeOptionsFor ? 
-        Object.keys(ring.getAvailableSymbols()).reduce((acc, symbol) => {
-          acc[symbol] = ring.getShapeOptionsFor(symbol);
-          return acc;
-        }, {} as Record<string, Record<string, { min: number; max: number; value: number }>>) : {}
+      shapeOptions: serializeShapeOptions(ring.layers[0]),
+      modulations: serializeModulations(ring.layers[0]),
+      layers: ring.layers.length > 1 ? ring.layers.slice(1).map(serializeLayer) : undefined,
     };
   }
 
   /**
    * Deserialize Ring from compact format
    */
-  private deserializeRing(serialized: SerializedRing, p: p5): Ring {
+  private deserializeRing(serialized: SerializedRing, p: p5, macros: GrammarMacros): Ring {
     const color = this.deserializeColor(serialized.baseColor, p);
     const ring = new Ring(serialized.radius, color, serialized.ringIndex);
     
     ring.visible = serialized.visible;
-    ring.setPattern(p, serialized.grammarString);
-    
-    // Restore shape options
-    Object.keys(serialized.shapeOptions).forEach(symbol => {
-      const options = serialized.shapeOptions[symbol];
-      // This would need to be implemented in the Ring class
-      // ring.setShapeOptions(symbol, options);
-    });
+    if (serialized.seed !== undefined) ring.seed = serialized.seed;
+    if (serialized.fitMode) ring.fitMode = serialized.fitMode;
+    if (serialized.divisions !== undefined) ring.divisions = serialized.divisions;
+    if (serialized.phaseOffset !== undefined) ring.phaseOffset = serialized.phaseOffset;
+    if (serialized.phaseUnit) ring.phaseUnit = serialized.phaseUnit;
+    if (serialized.arcStart !== undefined) ring.arcStart = serialized.arcStart;
+    if (serialized.arcSweep !== undefined) ring.arcSweep = serialized.arcSweep;
+    if (serialized.path) ring.path = { ...DEFAULT_RING_PATH, ...serialized.path };
+    if (serialized.radiusOverride !== undefined) ring.radiusOverride = serialized.radiusOverride;
+    if (serialized.ignoredGradients) ring.ignoredGradients = [...serialized.ignoredGradients];
+    if (serialized.gradientOffsets) ring.gradientOffsets = { ...serialized.gradientOffsets };
+    if (serialized.strokeOverrides) ring.strokeOverrides = { ...serialized.strokeOverrides };
+    ring.setPattern(p, serialized.grammarString, macros);
+    ring.layers[0].restoreShapeOptions(serialized.shapeOptions ?? {});
+    ring.layers[0].restoreModulations(serialized.modulations ?? {});
+    deserializeLayers(ring, serialized.layers ?? [], p, macros);
     
     return ring;
   }
@@ -128,26 +180,41 @@ class AutosaveService {
    */
   private serializeArtwork(state: ArtworkState): SerializedArtwork {
     return {
-      version: '1.0',
+      version: ARTWORK_FORMAT_VERSION,
       timestamp: Date.now(),
       rings: state.rings.map(ring => this.serializeRing(ring)),
       palette: state.palette.map(color => this.serializeColor(color)),
       innerDot: state.innerDot,
       globals: state.globals,
-      guidesVisible: state.guidesVisible
+      guidesVisible: state.guidesVisible,
+      macros: state.macros,
+      glyphs: state.glyphs,
+      lSystem: state.lSystem,
+      ringSpacing: state.ringSpacing,
+      seed: state.seed,
+      gradients: state.gradients
     };
   }
 
   /**
    * Deserialize artwork state
    */
-  private deserializeArtwork(serialized: SerializedArtwork, p: p5): Partial<ArtworkState> {
+  private deserializeArtwork(saved: SerializedArtwork, p: p5): Partial<ArtworkState> {
+    const serialized = migrateArtwork(saved);
+    // Custom glyph letters must be registered before the ring grammars are parsed
+    replaceCustomGlyphs(serialized.glyphs ?? []);
     return {
-      rings: serialized.rings.map(ring => this.deserializeRing(ring, p)),
+      rings: serialized.rings.map(ring => this.deserializeRing(ring, p, serialized.macros ?? {})),
       palette: serialized.palette.map(color => this.deserializeColor(color, p)),
       innerDot: serialized.innerDot,
       globals: serialized.globals,
-      guidesVisible: serialized.guidesVisible
+      guidesVisible: serialized.guidesVisible,
+      macros: serialized.macros ?? {},
+      glyphs: serialized.glyphs ?? [],
+      lSystem: serialized.lSystem,
+      ringSpacing: serialized.ringSpacing ?? inferRingSpacing(serialized.rings.map((ring) => ring.radius)),
+      seed: serialized.seed,
+      gradients: serialized.gradients ?? []
     };
   }
 
@@ -0,0 +1,49 @@
+/**
+ * Upgrades for artworks saved by older versions of the app, applied by both
+ * the save slots and autosave before a saved artwork is deserialized.
+ */
+
+export const ARTWORK_FORMAT_VERSION = '2.0';
+
+// Before 2.0, radii were canvas pixels and the outer ring sat at 85% of the half-canvas
+const LEGACY_OUTER_RING_FRACTION = 0.85;
+
+interface SavedRadii {
+  version: string;
+  rings: { radius: number; radiusOverride?: number }[];
+  innerDot: { radius: number; maxRadius: number };
+  ringSpacing?: { innerRadius: number; outerRadius: number };
+}
+
+/**
+ * Convert pixel radii from a pre-2.0 save into wheel units (1 = edge of the
+ * wheel), assuming its outermost ring was at the usual 85%
+ */
+export function migrateArtwork<T extends SavedRadii>(serialized: T): T {
+  if (parseFloat(serialized.version) >= 2) return serialized;
+
+  const outerRadius = Math.max(0, ...serialized.rings.map((ring) => ring.radius));
+  if (outerRadius <= 0) return { ...serialized, version: ARTWORK_FORMAT_VERSION };
+  const pixelsPerUnit = outerRadius / LEGACY_OUTER_RING_FRACTION;
+  const toUnits = (pixels: number) => pixels / pixelsPerUnit;
+
+  return {
+    ...serialized,
+    version: ARTWORK_FORMAT_VERSION,
+    rings: serialized.rings.map((ring) => ({
+      ...ring,
+      radius: toUnits(ring.radius),
+      radiusOverride: ring.radiusOverride === undefined ? undefined : toUnits(ring.radiusOverride),
+    })),
+    innerDot: {
+      ...serialized.innerDot,
+      radius: toUnits(serialized.innerDot.radius),
+      maxRadius: toUnits(serialized.innerDot.maxRadius),
+    },
+    ringSpacing: serialized.ringSpacing && {
+      ...serialized.ringSpacing,
+      innerRadius: toUnits(serialized.ringSpacing.innerRadius),
+      outerRadius: toUnits(serialized.ringSpacing.outerRadius),
+    },
+  };
+}
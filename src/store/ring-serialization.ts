@@ -0,0 +1,79 @@
+/**
+ * Ring layer serialization shared by the save slots and autosave, so both
+ * formats store layers, shape options and modulations the same way.
+ */
+
+import type p5 from 'p5';
+import type { PhaseUnit, Ring } from '../model/ring';
+import type { RingLayer } from '../model/ring-layer';
+import type { GrammarMacros } from '../core/macros';
+import type { Modulation } from '../core/modulation';
+
+export type SerializedShapeOptions = Record<string, Record<string, { min: number; max: number; value: number }>>;
+
+export type SerializedModulations = Record<string, Record<string, Modulation>>; // symbol -> param key -> modulation
+
+export interface SerializedRingLayer {
+  grammarString: string;
+  seed: number;
+  visible: boolean;
+  phaseOffset: number;
+  phaseUnit: PhaseUnit;
+  strokeColors: Record<string, number>;
+  shapeOptions: SerializedShapeOptions;
+  modulations?: SerializedModulations;
+}
+
+export function serializeShapeOptions(layer: RingLayer): SerializedShapeOptions {
+  const options: SerializedShapeOptions = {};
+  for (const symbol of layer.getAvailableSymbols()) {
+    options[symbol] = Object.fromEntries(
+      Object.entries(layer.getShapeOptionsFor(symbol) ?? {}).map(([key, param]) => [key, { ...param }])
+    );
+  }
+  return options;
+}
+
+// Only symbols with at least one modulated parameter
+export function serializeModulations(layer: RingLayer): SerializedModulations | undefined {
+  const modulations: SerializedModulations = {};
+  for (const [symbol, params] of Object.entries(layer.modulations)) {
+    if (Object.keys(params).length === 0) continue;
+    modulations[symbol] = Object.fromEntries(
+      Object.entries(params).map(([key, modulation]) => [key, { ...modulation }])
+    );
+  }
+  return Object.keys(modulations).length > 0 ? modulations : undefined;
+}
+
+export function serializeLayer(layer: RingLayer): SerializedRingLayer {
+  return {
+    grammarString: layer.grammarString,
+    seed: layer.seed,
+    visible: layer.visible,
+    phaseOffset: layer.phaseOffset,
+    phaseUnit: layer.phaseUnit,
+    strokeColors: { ...layer.strokeColors },
+    shapeOptions: serializeShapeOptions(layer),
+    modulations: serializeModulations(layer),
+  };
+}
+
+/**
+ * Add the saved layers after a ring's main one, parsing their grammars with the
+ * artwork's macros
+ */
+export function deserializeLayers(ring: Ring, layers: SerializedRingLayer[], p: p5, macros: GrammarMacros) {
+  for (const serialized of layers) {
+    const index = ring.addLayer(p);
+    const layer = ring.layers[index];
+    layer.seed = serialized.seed;
+    layer.visible = serialized.visible;
+    layer.phaseOffset = serialized.phaseOffset;
+    layer.phaseUnit = serialized.phaseUnit;
+    layer.strokeColors = { ...serialized.strokeColors };
+    ring.setLayerPattern(p, index, serialized.grammarString, macros);
+    layer.restoreShapeOptions(serialized.shapeOptions ?? {});
+    layer.restoreModulations(serialized.modulations ?? {});
+  }
+}